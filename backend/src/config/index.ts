@@ -1,9 +1,212 @@
 import dotenv from 'dotenv';
-import { Config, LLMProviderType, ProviderConfig } from '../types';
+import { z } from 'zod';
+import { Config, LLMProviderType, ModelPrice, OpenAICompatibleProviderConfig, ProviderConfig, ProviderErrorClass, QuestionCategory, QuotaClient, RetryPolicy, SessionStoreType } from '../types';
 
 // Load environment variables
 dotenv.config();
 
+const openAICompatibleProviderSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9][a-z0-9_-]*$/, 'Provider id must be lowercase alphanumeric'),
+  displayName: z.string().min(1).optional(),
+  baseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  models: z.array(z.string().min(1)).min(1),
+  defaultModel: z.string().optional(),
+  jsonMode: z.boolean().optional(),
+  prompts: z.object({
+    generation: z.string().optional(),
+    refinement: z.string().optional(),
+  }).optional(),
+  retry: z.object({
+    maxAttempts: z.number().int().min(1),
+    baseDelayMs: z.number().int().min(0),
+    maxDelayMs: z.number().int().min(0),
+    retryOn: z.array(z.enum([
+      'rate_limit', 'server_error', 'network', 'timeout', 'auth', 'validation', 'invalid_response', 'unknown',
+    ])),
+  }).partial().optional(),
+});
+
+/**
+ * Parse OPENAI_COMPATIBLE_PROVIDERS, a JSON array of OpenAI-compatible endpoints.
+ * Keys may be given inline (apiKey) or by environment variable name (apiKeyEnv).
+ */
+function parseOpenAICompatibleProviders(raw?: string): OpenAICompatibleProviderConfig[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const entries = z.array(openAICompatibleProviderSchema).parse(JSON.parse(raw));
+    return entries.map(entry => ({
+      ...entry,
+      displayName: entry.displayName || entry.id,
+      apiKey: entry.apiKey || (entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined),
+    }));
+  } catch (error) {
+    console.error('Ignoring invalid OPENAI_COMPATIBLE_PROVIDERS configuration:', error);
+    return [];
+  }
+}
+
+// List prices in USD per million tokens; extend or override with MODEL_PRICES
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+  'moonshotai/kimi-k2-instruct': { input: 1, output: 3 },
+};
+
+const modelPricesSchema = z.record(z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+}));
+
+/**
+ * Parse MODEL_PRICES, a JSON object of model id (or prefix) to { input, output } USD per million tokens
+ */
+function parseModelPrices(raw?: string): Record<string, ModelPrice> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return modelPricesSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Ignoring invalid MODEL_PRICES configuration:', error);
+    return {};
+  }
+}
+
+const quotaLimitsSchema = z.object({
+  dailyTokens: z.number().min(0),
+  dailyCost: z.number().min(0),
+  monthlyTokens: z.number().min(0),
+  monthlyCost: z.number().min(0),
+}).partial();
+
+const quotaClientSchema = quotaLimitsSchema.extend({
+  secret: z.string().min(1).optional(),
+});
+
+/**
+ * Parse QUOTA_CLIENTS, a JSON object of client id to the limits that replace the defaults for that client,
+ * and optionally the secret the client's requests must carry
+ */
+function parseQuotaClients(raw?: string): Record<string, QuotaClient> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const clients = z.record(quotaClientSchema).parse(JSON.parse(raw));
+    const unprotected = Object.keys(clients).filter(id => !clients[id].secret);
+    if (unprotected.length > 0) {
+      console.warn(`QUOTA_CLIENTS without a secret can be used by anyone who sends their id: ${unprotected.join(', ')}`);
+    }
+    return clients;
+  } catch (error) {
+    console.error('Ignoring invalid QUOTA_CLIENTS configuration:', error);
+    return {};
+  }
+}
+
+// Built-in question taxonomy; QUESTION_CATEGORIES replaces it
+export const DEFAULT_QUESTION_CATEGORIES: QuestionCategory[] = [
+  { id: 'clarity', name: 'Clarity', description: 'Clarity of intent - what exactly does the user want to achieve?' },
+  { id: 'specificity', name: 'Specificity', description: 'What specific details or parameters are needed?' },
+  { id: 'context', name: 'Context', description: 'What is the target audience, use case, or environment?' },
+  { id: 'constraints', name: 'Constraints', description: 'Are there any limitations, requirements, or things to avoid?' },
+  { id: 'format', name: 'Format', description: 'How should the output be structured - length, layout, sections, or file type?' },
+  { id: 'persona', name: 'Persona', description: 'What role or voice should the model take on?' },
+  { id: 'examples', name: 'Examples', description: 'Would examples of the desired output, or of what to avoid, help?' },
+  { id: 'safety', name: 'Safety', description: 'Are there sensitive topics, compliance rules, or content the response must stay clear of?' },
+];
+
+const questionCategoriesSchema = z.array(z.object({
+  id: z.string().min(1).regex(/^[a-z][a-z0-9_-]*$/, 'Category id must be lowercase alphanumeric'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+})).min(1).refine(
+  categories => new Set(categories.map(category => category.id)).size === categories.length,
+  'Category ids must be unique'
+);
+
+/**
+ * Parse QUESTION_CATEGORIES, a JSON array of { id, name, description } that replaces the built-in taxonomy
+ */
+function parseQuestionCategories(raw?: string): QuestionCategory[] {
+  if (!raw) {
+    return DEFAULT_QUESTION_CATEGORIES;
+  }
+
+  try {
+    return questionCategoriesSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Ignoring invalid QUESTION_CATEGORIES configuration:', error);
+    return DEFAULT_QUESTION_CATEGORIES;
+  }
+}
+
+// Comma-separated env values, e.g. ENABLED_PROVIDERS=openai,groq
+function parseList(raw?: string): string[] | undefined {
+  return raw ? raw.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+function parseOptionalInt(raw?: string): number | undefined {
+  const value = raw ? parseInt(raw, 10) : NaN;
+  return Number.isNaN(value) ? undefined : value;
+}
+
+function parseSessionStore(raw?: string): SessionStoreType {
+  if (!raw) {
+    return 'memory';
+  }
+
+  const result = z.enum(['memory', 'sqlite', 'redis']).safeParse(raw.trim().toLowerCase());
+  if (!result.success) {
+    console.error(`Ignoring invalid SESSION_STORE configuration "${raw}", using the in-memory store`);
+    return 'memory';
+  }
+  return result.data;
+}
+
+function parseOptionalFloat(raw?: string): number | undefined {
+  const value = raw ? parseFloat(raw) : NaN;
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Read <PREFIX>_MAX_ATTEMPTS, <PREFIX>_BASE_DELAY_MS, <PREFIX>_MAX_DELAY_MS and <PREFIX>_ON,
+ * keeping only the values that are set
+ */
+function parseRetryPolicy(prefix: string): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {
+    maxAttempts: parseOptionalInt(process.env[`${prefix}_MAX_ATTEMPTS`]),
+    baseDelayMs: parseOptionalInt(process.env[`${prefix}_BASE_DELAY_MS`]),
+    maxDelayMs: parseOptionalInt(process.env[`${prefix}_MAX_DELAY_MS`]),
+    retryOn: parseList(process.env[`${prefix}_ON`]) as ProviderErrorClass[] | undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(policy).filter(([, value]) => value !== undefined)
+  ) as Partial<RetryPolicy>;
+}
+
 const config: Config = {
   port: parseInt(process.env.PORT || '8000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -11,8 +214,20 @@ const config: Config = {
   sessionSecret: process.env.SESSION_SECRET || 'your-session-secret-change-in-production',
   sessionTimeoutHours: parseInt(process.env.SESSION_TIMEOUT_HOURS || '24', 10),
   maxQuestionsPerSession: parseInt(process.env.MAX_QUESTIONS_PER_SESSION || '10', 10),
+  sessionStore: {
+    type: parseSessionStore(process.env.SESSION_STORE),
+    sqlitePath: process.env.SESSION_SQLITE_PATH || './data/sessions.db',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    redisKeyPrefix: process.env.SESSION_REDIS_PREFIX || 'prompt-refinement:',
+  },
+  promptTemplates: {
+    path: process.env.PROMPT_TEMPLATES_PATH || './data/prompt-templates.json',
+    adminKey: process.env.PROMPT_ADMIN_KEY || undefined,
+  },
   defaultLLMProvider: process.env.DEFAULT_LLM_PROVIDER || 'anthropic',
   defaultModel: process.env.DEFAULT_MODEL || 'claude-3-5-sonnet-20240620',
+  enabledProviders: parseList(process.env.ENABLED_PROVIDERS),
+  providerHealthProbe: process.env.PROVIDER_HEALTH_PROBE === 'true',
   llmProviders: {
     openai: process.env.OPENAI_API_KEY ? {
       apiKey: process.env.OPENAI_API_KEY,
@@ -34,6 +249,55 @@ const config: Config = {
       baseUrl: process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1',
     } : undefined,
   },
+  openAICompatibleProviders: parseOpenAICompatibleProviders(process.env.OPENAI_COMPATIBLE_PROVIDERS),
+  retry: {
+    defaults: {
+      maxAttempts: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 8000,
+      retryOn: ['rate_limit', 'server_error', 'network', 'timeout'],
+      ...parseRetryPolicy('RETRY'),
+    },
+    providers: Object.fromEntries(
+      Object.values(LLMProviderType).map(id => [id, parseRetryPolicy(`${id.toUpperCase()}_RETRY`)])
+    ),
+  },
+  models: {
+    cacheTtlMs: parseInt(process.env.MODEL_CACHE_TTL_MS || '3600000', 10),
+    overrides: Object.fromEntries(
+      Object.values(LLMProviderType).map(id => [id, parseList(process.env[`${id.toUpperCase()}_MODELS`]) || []])
+    ),
+  },
+  circuitBreaker: {
+    failureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    errorRateThreshold: parseFloat(process.env.CIRCUIT_ERROR_RATE_THRESHOLD || '0.5'),
+    windowSize: parseInt(process.env.CIRCUIT_WINDOW_SIZE || '20', 10),
+    openDurationMs: parseInt(process.env.CIRCUIT_OPEN_MS || '30000', 10),
+  },
+  pricing: {
+    ...DEFAULT_MODEL_PRICES,
+    ...parseModelPrices(process.env.MODEL_PRICES),
+  },
+  quota: {
+    limits: {
+      dailyTokens: parseOptionalInt(process.env.QUOTA_DAILY_TOKENS),
+      dailyCost: parseOptionalFloat(process.env.QUOTA_DAILY_COST),
+      monthlyTokens: parseOptionalInt(process.env.QUOTA_MONTHLY_TOKENS),
+      monthlyCost: parseOptionalFloat(process.env.QUOTA_MONTHLY_COST),
+    },
+    clients: parseQuotaClients(process.env.QUOTA_CLIENTS),
+    warnAt: parseFloat(process.env.QUOTA_WARN_AT || '0.8'),
+    clientHeader: (process.env.QUOTA_CLIENT_HEADER || 'x-client-id').toLowerCase(),
+    secretHeader: (process.env.QUOTA_CLIENT_SECRET_HEADER || 'x-client-secret').toLowerCase(),
+  },
+  questionCategories: parseQuestionCategories(process.env.QUESTION_CATEGORIES),
+  questionRepair: {
+    maxAttempts: parseInt(process.env.QUESTION_REPAIR_ATTEMPTS || '2', 10),
+  },
+  failover: {
+    chain: parseList(process.env.FAILOVER_CHAIN) || [],
+    errorClasses: (parseList(process.env.FAILOVER_ON) || ['rate_limit', 'server_error', 'network', 'timeout']) as ProviderErrorClass[],
+  },
 };
 
 export const PROVIDER_CONFIGS: Record<LLMProviderType, ProviderConfig> = {
@@ -94,10 +358,7 @@ export const PROVIDER_CONFIGS: Record<LLMProviderType, ProviderConfig> = {
       'llama-3.3-70b-versatile',
       'meta-llama/llama-4-scout-17b-16e-instruct',
       'moonshotai/kimi-k2-instruct',
-      'gemma2-9b-it',
       'llama-3.1-8b-instant',
-      'llama-3.1-70b-versatile',
-      'mixtral-8x7b-32768',
     ],
     isEnabled: true,
     defaultModel: 'llama-3.3-70b-versatile',
@@ -4,9 +4,11 @@ import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { isAdminOpen } from './middleware/adminKey';
 import promptRoutes from './routes/prompts';
 import providerRoutes from './routes/providers';
 import questionRoutes from './routes/questions';
+import promptTemplateRoutes from './routes/promptTemplates';
 import config from './config';
 import { llmProviderFactory } from './providers';
 
@@ -20,6 +22,7 @@ app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
   optionsSuccessStatus: 200,
+  exposedHeaders: ['X-Quota-Warning'],
 }));
 
 // Rate limiting
@@ -56,6 +59,7 @@ app.get('/health', (req, res) => {
 app.use('/api/prompts', promptRoutes);
 app.use('/api/providers', providerRoutes);
 app.use('/api/questions', questionRoutes);
+app.use('/api/prompt-templates', promptTemplateRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -65,16 +69,38 @@ app.use(errorHandler);
 
 // Start server
 const PORT = config.port;
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📚 API documentation: http://localhost:${PORT}/health`);
-  console.log(`🔧 Environment: ${config.nodeEnv}`);
-  console.log(`🔗 CORS origin: ${config.corsOrigin}`);
-  
-  // Log available providers
-  const availableProviders = llmProviderFactory.getProviderNames();
-  
-  console.log(`🤖 Available LLM providers: ${availableProviders.join(', ')}`);
-});
+const start = async () => {
+  // Optionally probe providers first, so no request is routed to a provider the probe is about to remove
+  if (config.providerHealthProbe) {
+    await llmProviderFactory.probeProviders();
+  }
+
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📚 API documentation: http://localhost:${PORT}/health`);
+    console.log(`🔧 Environment: ${config.nodeEnv}`);
+    console.log(`🔗 CORS origin: ${config.corsOrigin}`);
+    if (isAdminOpen()) {
+      console.warn('⚠️  PROMPT_ADMIN_KEY is not set: anyone can change prompt templates');
+    }
+
+    // Log available providers
+    const availableProviders = llmProviderFactory.getProviderNames();
+
+    console.log(`🤖 Available LLM providers: ${availableProviders.join(', ')}`);
+
+    const unavailableProviders = llmProviderFactory.getAllProviderConfigs().filter(p => !p.isAvailable);
+    for (const provider of unavailableProviders) {
+      console.log(`⚪ ${provider.displayName} unavailable (${provider.unavailableReason}): ${provider.unavailableMessage}`);
+    }
+
+    // Warm the model catalog in the background; listings use the built-in model lists until it is ready
+    llmProviderFactory.refreshModels().catch(error => {
+      console.error('Model discovery failed:', error);
+    });
+  });
+};
+
+start();
 
 export default app; 
\ No newline at end of file
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import config from '../config';
+
+const ADMIN_KEY_HEADER = 'x-admin-key';
+
+const matchesAdminKey = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Whether admin routes are open to anyone: only in development, and only without a PROMPT_ADMIN_KEY
+ */
+export const isAdminOpen = (): boolean => !config.promptTemplates.adminKey && config.nodeEnv === 'development';
+
+/**
+ * Guards admin-only routes with the PROMPT_ADMIN_KEY, sent in the X-Admin-Key header.
+ * Without a configured key every request is let through in development and refused elsewhere.
+ */
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.promptTemplates.adminKey;
+  if (!expected) {
+    return isAdminOpen()
+      ? next()
+      : next(new AppError('Template administration is disabled: PROMPT_ADMIN_KEY is not set', 403, 'FORBIDDEN'));
+  }
+
+  const provided = req.get(ADMIN_KEY_HEADER);
+  if (!provided || !matchesAdminKey(provided, expected)) {
+    return next(new AppError('A valid X-Admin-Key header is required', 401, 'UNAUTHORIZED'));
+  }
+
+  next();
+};
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse, ErrorResponse } from '../types';
+import { ApiResponse, ErrorResponse, QuotaStatus } from '../types';
 
 export class AppError extends Error {
   public statusCode: number;
@@ -16,6 +16,12 @@ export class AppError extends Error {
   }
 }
 
+export class QuotaExceededError extends AppError {
+  constructor(message: string, public quota: QuotaStatus) {
+    super(message, 429, 'QUOTA_EXCEEDED');
+  }
+}
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
@@ -25,8 +31,14 @@ export const errorHandler = (
   let statusCode = 500;
   let message = 'Internal Server Error';
   let code: string | undefined;
+  let quota: QuotaStatus | undefined;
 
-  if (err instanceof AppError) {
+  if (err instanceof QuotaExceededError) {
+    statusCode = err.statusCode;
+    message = err.message;
+    code = err.code;
+    quota = err.quota;
+  } else if (err instanceof AppError) {
     statusCode = err.statusCode;
     message = err.message;
     code = err.code;
@@ -54,6 +66,7 @@ export const errorHandler = (
     error: message,
     message,
     code,
+    quota,
   };
 
   res.status(statusCode).json(errorResponse);
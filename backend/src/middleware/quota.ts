@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { quotaService, describeQuota } from '../services/quotaService';
+import config from '../config';
+
+const secretMatches = (presented: string | undefined, secret: string): boolean => {
+  if (presented === undefined) return false;
+  const a = Buffer.from(presented);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * The API client a request is billed to: the QUOTA_CLIENT_HEADER value when it names a client
+ * from QUOTA_CLIENTS (with that client's secret, if it has one), otherwise the caller's IP.
+ * Unknown ids are ignored so a caller cannot start over with a fresh quota by changing the header.
+ */
+export const getClientId = (req: Request): string => {
+  const header = req.get(config.quota.clientHeader)?.trim();
+  const client = header && Object.prototype.hasOwnProperty.call(config.quota.clients, header)
+    ? config.quota.clients[header]
+    : undefined;
+  if (header && client && (!client.secret || secretMatches(req.get(config.quota.secretHeader), client.secret))) {
+    return header;
+  }
+  return `ip:${req.ip || 'unknown'}`;
+};
+
+/**
+ * Rejects LLM requests from clients that have used up a quota with a 429 QUOTA_EXCEEDED error,
+ * and flags clients nearing a limit through the X-Quota-Warning header.
+ * The client id is left in res.locals.clientId so routes can bill the request's usage to it.
+ */
+export const enforceQuota = (req: Request, res: Response, next: NextFunction) => {
+  const clientId = getClientId(req);
+  res.locals.clientId = clientId;
+
+  try {
+    const warnings = quotaService.check(clientId);
+    if (warnings.length > 0) {
+      res.setHeader('X-Quota-Warning', warnings.map(describeQuota).join('; '));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
@@ -1,6 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { AppError } from './errorHandler';
+import { isKnownQuestionCategory } from '../utils/questionSchema';
+
+// Language and tone are written into the system prompt, so they are kept to plain words
+const promptStyleWord = (field: string) => z.string()
+  .trim()
+  .max(40, `${field} must not exceed 40 characters`)
+  .regex(/^[\p{L}\p{M} ,()'-]*$/u, `${field} may only contain letters, spaces and basic punctuation`)
+  .optional()
+  .transform(value => value || undefined);
+
+// Ids from the configured question taxonomy
+const questionCategoryIds = z.array(z.string())
+  .min(1, 'Select at least one question category')
+  .refine(ids => ids.every(isKnownQuestionCategory), 'Unknown question category')
+  .optional();
+
+// Every form Answer.response takes; whether it fits the question's type is checked against the session
+const answerResponse = z.union([
+  z.boolean(),
+  z.number().finite(),
+  z.string().max(2000, 'Answers must not exceed 2000 characters'),
+  z.array(z.string().max(200)).max(20, 'At most 20 options can be selected'),
+]);
+
+const answerSchema = z.object({
+  id: z.string(),
+  questionId: z.string(),
+  response: answerResponse,
+  timestamp: z.string().or(z.date()),
+});
 
 // Validation schemas
 export const createSessionSchema = z.object({
@@ -10,6 +40,9 @@ export const createSessionSchema = z.object({
   llmProvider: z.string()
     .min(1, 'LLM provider is required'),
   model: z.string().optional(),
+  language: promptStyleWord('Language'),
+  tone: promptStyleWord('Tone'),
+  categories: questionCategoryIds,
 });
 
 export const answerQuestionSchema = z.object({
@@ -17,23 +50,27 @@ export const answerQuestionSchema = z.object({
     .uuid('Invalid session ID format'),
   questionId: z.string()
     .min(1, 'Question ID is required'),
-  response: z.boolean(),
+  response: answerResponse,
 });
 
 export const refinePromptSchema = z.object({
   sessionId: z.string()
     .uuid('Invalid session ID format'),
-  answers: z.array(z.object({
-    id: z.string(),
-    questionId: z.string(),
-    response: z.union([z.boolean(), z.string()]),
-    timestamp: z.string().or(z.date()),
-  })),
+  answers: z.array(answerSchema),
   llmProvider: z.string()
     .min(1, 'LLM provider is required'),
   model: z.string().optional(),
 });
 
+export const nextQuestionSchema = z.object({
+  sessionId: z.string()
+    .uuid('Invalid session ID format'),
+  answers: z.array(answerSchema).optional(),
+  parentQuestionId: z.string().min(1).optional(),
+  llmProvider: z.string().min(1).optional(),
+  model: z.string().optional(),
+});
+
 export const generateQuestionsSchema = z.object({
   prompt: z.string()
     .min(10, 'Prompt must be at least 10 characters long')
@@ -45,6 +82,9 @@ export const generateQuestionsSchema = z.object({
     .min(1)
     .max(15)
     .optional(),
+  language: promptStyleWord('Language'),
+  tone: promptStyleWord('Tone'),
+  categories: questionCategoryIds,
 });
 
 export const sessionIdSchema = z.object({
@@ -52,6 +92,93 @@ export const sessionIdSchema = z.object({
     .uuid('Invalid session ID format'),
 });
 
+export const revisionSchema = z.object({
+  sessionId: z.string()
+    .uuid('Invalid session ID format'),
+  version: z.coerce.number()
+    .int()
+    .min(1, 'Revision versions start at 1'),
+});
+
+export const revisionDiffSchema = z.object({
+  sessionId: z.string()
+    .uuid('Invalid session ID format'),
+  // 0 is the original prompt
+  from: z.coerce.number()
+    .int()
+    .min(0),
+  to: z.coerce.number()
+    .int()
+    .min(0),
+});
+
+export const editPromptSchema = z.object({
+  sessionId: z.string()
+    .uuid('Invalid session ID format'),
+  prompt: z.string()
+    .trim()
+    .min(1, 'Prompt is required')
+    .max(20000, 'Prompt must not exceed 20000 characters'),
+});
+
+const promptTemplateContent = z.string()
+  .trim()
+  .min(1, 'Template content is required')
+  .max(20000, 'Template content must not exceed 20000 characters');
+
+const promptTemplateNote = z.string()
+  .trim()
+  .max(200, 'Note must not exceed 200 characters')
+  .optional()
+  .transform(note => note || undefined);
+
+export const listPromptTemplatesSchema = z.object({
+  type: z.enum(['generation', 'refinement']).optional(),
+  providerId: z.string().optional(),
+});
+
+export const resolvePromptSchema = z.object({
+  providerId: z.string()
+    .min(1, 'Provider ID is required'),
+  model: z.string().optional(),
+  type: z.enum(['generation', 'refinement']).optional(),
+});
+
+export const promptTemplateIdSchema = z.object({
+  id: z.string()
+    .uuid('Invalid template ID format'),
+});
+
+export const createPromptTemplateSchema = z.object({
+  type: z.enum(['generation', 'refinement']),
+  providerId: z.string()
+    .min(1, 'Provider ID is required'),
+  // An empty model means the template applies to every model of the provider;
+  // a model with `*` wildcards applies to a model family
+  model: z.string()
+    .trim()
+    .max(200)
+    .optional()
+    .transform(model => model || undefined),
+  content: promptTemplateContent,
+  note: promptTemplateNote,
+});
+
+export const updatePromptTemplateSchema = z.object({
+  id: z.string()
+    .uuid('Invalid template ID format'),
+  content: promptTemplateContent,
+  note: promptTemplateNote,
+});
+
+export const promptTemplateVersionSchema = z.object({
+  id: z.string()
+    .uuid('Invalid template ID format'),
+  version: z.coerce.number()
+    .int()
+    .min(1, 'Template versions start at 1'),
+});
+
 export const validateApiKeySchema = z.object({
   providerId: z.string()
     .min(1, 'Provider ID is required'),
@@ -99,9 +226,19 @@ export const validate = (schema: z.ZodSchema) => {
 export const validateCreateSession = validate(createSessionSchema);
 export const validateAnswerQuestion = validate(answerQuestionSchema);
 export const validateRefinePrompt = validate(refinePromptSchema);
+export const validateNextQuestion = validate(nextQuestionSchema);
 export const validateGenerateQuestions = validate(generateQuestionsSchema);
 export const validateSessionId = validate(sessionIdSchema);
+export const validateRevision = validate(revisionSchema);
+export const validateRevisionDiff = validate(revisionDiffSchema);
+export const validateEditPrompt = validate(editPromptSchema);
 export const validateApiKey = validate(validateApiKeySchema);
+export const validateListPromptTemplates = validate(listPromptTemplatesSchema);
+export const validateResolvePrompt = validate(resolvePromptSchema);
+export const validatePromptTemplateId = validate(promptTemplateIdSchema);
+export const validateCreatePromptTemplate = validate(createPromptTemplateSchema);
+export const validateUpdatePromptTemplate = validate(updatePromptTemplateSchema);
+export const validatePromptTemplateVersion = validate(promptTemplateVersionSchema);
 
 // Custom validation for specific needs
 export const validatePromptLength = (req: Request, res: Response, next: NextFunction) => {
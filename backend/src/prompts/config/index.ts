@@ -8,7 +8,7 @@ import { groqGenerationPrompt } from '../generation/groq';
 import { baseRefinementPrompt } from '../refinement/base';
 
 export type PromptType = 'generation' | 'refinement';
-export type ProviderId = 'openai' | 'anthropic' | 'groq';
+export type ProviderId = 'openai' | 'anthropic' | 'google' | 'ollama' | 'groq';
 
 export interface PromptConfig {
   generation: string;
@@ -28,12 +28,66 @@ export const promptConfigs: Record<ProviderId, PromptConfig> = {
     generation: baseGenerationPrompt,
     refinement: baseRefinementPrompt,
   },
+  google: {
+    generation: baseGenerationPrompt,
+    refinement: baseRefinementPrompt,
+  },
+  ollama: {
+    generation: baseGenerationPrompt,
+    refinement: baseRefinementPrompt,
+  },
   groq: {
     generation: groqGenerationPrompt, // Uses specialized prompt for better JSON formatting
     refinement: baseRefinementPrompt,
   },
 };
 
+/**
+ * Prompts for a family of models, matched by model id across every provider.
+ * Patterns are case-insensitive and `*` matches any run of characters.
+ */
+export interface ModelFamilyPrompt {
+  name: string;
+  patterns: string[];
+  prompts: Partial<PromptConfig>;
+}
+
+export const modelFamilyPrompts: ModelFamilyPrompt[] = [
+  {
+    // Small Llama models drift from the JSON format under the base prompt
+    name: 'small-llama',
+    patterns: ['llama-3.1-8b*', 'llama3.1:8b*'],
+    prompts: {
+      generation: groqGenerationPrompt,
+    },
+  },
+];
+
+/**
+ * Whether a model id matches a model pattern such as `llama-3.1-*`
+ */
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i').test(model);
+}
+
+/**
+ * The built-in family prompt of a type for a model, with the pattern that matched
+ */
+export function findModelFamilyPrompt(
+  model: string,
+  type: PromptType
+): { family: ModelFamilyPrompt; pattern: string; prompt: string } | undefined {
+  for (const family of modelFamilyPrompts) {
+    const prompt = family.prompts[type];
+    const pattern = family.patterns.find(candidate => matchesModelPattern(candidate, model));
+    if (prompt && pattern) {
+      return { family, pattern, prompt };
+    }
+  }
+  return undefined;
+}
+
 /**
  * Get the appropriate prompt for a given provider and type
  */
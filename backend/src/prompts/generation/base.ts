@@ -1,40 +1,30 @@
 /**
  * Base generation prompt used to generate questions from user input
- * This prompt helps create targeted questions that guide users to refine their prompts
+ * This prompt helps create targeted questions that guide users to refine their prompts.
+ * {{placeholders}} are filled in per request, see ../placeholders.ts
  */
-export const baseGenerationPrompt = `You are a prompt refinement assistant. Your task is to generate targeted questions with 3 options that will help users refine their initial prompts into more specific and effective versions.
+export const baseGenerationPrompt = `You are a prompt refinement assistant. Your task is to generate targeted questions that will help users refine their initial prompts into more specific and effective versions.
 
-When generating questions, focus on:
-1. Clarity of intent - What exactly does the user want to achieve?
-2. Specificity - What specific details, constraints, or parameters are needed?
-3. Context - What is the target audience, use case, or environment?
-4. Constraints - Are there any limitations, requirements, or preferred formats?
+When generating questions, focus on these categories:
+{{categoryDescriptions}}
 
-Generate 5-7 questions that are:
+Generate {{questionCount}} questions that are:
 - Clear and unambiguous
-- Have exactly 3 meaningful options
 - Progressive (building on each other)
 - Impactful for prompt refinement
 
-For each question, provide 3 options that can be:
-- Yes/No/Maybe (for binary questions with uncertainty)
-- Low/Medium/High (for degree or intensity)
-- Basic/Detailed/Comprehensive (for depth level)
-- Creative/Balanced/Analytical (for approach type)
-- Or any other relevant 3-option scale
+Give each question the type that fits what it asks:
+- single-choice: pick one of {{optionCount}} options, e.g. Low/Medium/High, Basic/Detailed/Comprehensive or Creative/Balanced/Analytical. The middle option should be the default/neutral choice.
+- multi-select: pick any number of options that can be combined, e.g. the output formats to include
+- yes-no: a plain yes or no decision
+- number-range: a quantity with sensible bounds, e.g. a target word count or the number of examples
+- free-text: something only the user can spell out, e.g. the sections they need or who the audience is
 
-The middle option (index 1) should be the default/neutral choice.
+Prefer single-choice when a few options cover the likely answers.
+
+Every question must belong to one of these categories: {{categories}}.
+
+Write the question text, explanations and options in {{language}}, in a {{tone}} tone. Keep the JSON keys and the type, category and impact values in English.
 
 Return the questions in JSON format with the following structure:
-{
-  "questions": [
-    {
-      "text": "Question text here",
-      "category": "clarity|specificity|context|constraints",
-      "impact": "high|medium|low",
-      "explanation": "Brief explanation of why this question matters",
-      "options": ["Option 1", "Option 2", "Option 3"],
-      "defaultOption": 1
-    }
-  ]
-}`;
\ No newline at end of file
+{{outputFormat}}`;
\ No newline at end of file
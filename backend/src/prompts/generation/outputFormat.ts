@@ -0,0 +1,22 @@
+/**
+ * The JSON structure every generation prompt must ask for, since it is what the question parser reads.
+ * Templates include it through the {{outputFormat}} placeholder.
+ */
+export const questionOutputFormat = (categories: string[]): string => `{
+  "questions": [
+    {
+      "text": "Question text here",
+      "type": "single-choice|multi-select|free-text|number-range|yes-no",
+      "category": "${categories.join('|')}",
+      "impact": "high|medium|low",
+      "explanation": "Brief explanation of why this question matters",
+      "options": ["Option 1", "Option 2", "Option 3"],
+      "defaultOption": 1,
+      "range": null
+    }
+  ]
+}
+
+"options" holds the choices of single-choice and multi-select questions, the yes and no labels of yes-no questions, and is [] for free-text and number-range questions.
+"defaultOption" is the index of the default option of single-choice and yes-no questions, and 0 otherwise.
+"range" is an object like {"min": 100, "max": 2000, "step": 100, "unit": "words", "defaultValue": 500} for number-range questions, and null otherwise.`;
\ No newline at end of file
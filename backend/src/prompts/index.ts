@@ -4,8 +4,19 @@
 
 // Export all individual prompts
 export { baseGenerationPrompt } from './generation/base';
+export { questionOutputFormat } from './generation/outputFormat';
 export { groqGenerationPrompt } from './generation/groq';
 export { baseRefinementPrompt } from './refinement/base';
+export { changeLogInstructions, CHANGE_LOG_MARKER } from './refinement/changeLog';
+
+// Export the placeholders prompts are rendered with
+export {
+  PROMPT_PLACEHOLDERS,
+  DEFAULT_OPTION_COUNT,
+  findPlaceholderIssues,
+  renderPromptTemplate,
+  type PromptVariables,
+} from './placeholders';
 
 // Export configuration system
 export {
@@ -13,6 +24,10 @@ export {
   setPromptConfig,
   getAllPromptConfigs,
   promptConfigs,
+  modelFamilyPrompts,
+  matchesModelPattern,
+  findModelFamilyPrompt,
+  type ModelFamilyPrompt,
   type PromptType,
   type ProviderId,
   type PromptConfig,
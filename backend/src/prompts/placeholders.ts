@@ -0,0 +1,121 @@
+/**
+ * {{name}} placeholders available to prompt templates, and how they are filled in.
+ * Built-in prompts and custom templates are rendered the same way, with the variables of the request.
+ */
+
+import type { PromptPlaceholder, QuestionCategory } from '../types';
+import type { PromptType } from './config';
+import { questionOutputFormat } from './generation/outputFormat';
+import { resolveQuestionCategories } from '../utils/questionSchema';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Values a prompt is rendered with. Anything left unset falls back to the defaults below.
+ */
+export interface PromptVariables {
+  questionCount?: number;
+  optionCount?: number;
+  categories?: QuestionCategory[];
+  // Language the questions and the refined prompt are written in, e.g. "German"
+  language?: string;
+  tone?: string;
+}
+
+export const DEFAULT_OPTION_COUNT = 3;
+
+const SHARED_PLACEHOLDERS: PromptPlaceholder[] = [
+  {
+    name: 'language',
+    description: 'Language to write in. Defaults to the language of the user\'s prompt.',
+    required: false,
+  },
+  {
+    name: 'tone',
+    description: 'Tone of voice, e.g. "friendly". Defaults to "clear and neutral".',
+    required: false,
+  },
+];
+
+export const PROMPT_PLACEHOLDERS: Record<PromptType, PromptPlaceholder[]> = {
+  generation: [
+    {
+      name: 'outputFormat',
+      description: 'The JSON structure questions must be returned in. Required: the server can only read this format.',
+      required: true,
+    },
+    {
+      name: 'questionCount',
+      description: 'How many questions to generate. Defaults to "5-7".',
+      required: false,
+    },
+    {
+      name: 'optionCount',
+      description: `How many options each single-choice question has. Defaults to ${DEFAULT_OPTION_COUNT}.`,
+      required: false,
+    },
+    {
+      name: 'categories',
+      description: 'Ids of the question categories to ask from, comma-separated.',
+      required: false,
+    },
+    {
+      name: 'categoryDescriptions',
+      description: 'The question categories to ask from, one per line with what each is about.',
+      required: false,
+    },
+    ...SHARED_PLACEHOLDERS,
+  ],
+  refinement: [...SHARED_PLACEHOLDERS],
+};
+
+const DEFAULT_LANGUAGE: Record<PromptType, string> = {
+  generation: 'the same language as the user\'s prompt',
+  refinement: 'the same language as the original prompt',
+};
+
+const placeholderValues = (type: PromptType, variables: PromptVariables): Record<string, string> => {
+  const categories = variables.categories?.length ? variables.categories : resolveQuestionCategories();
+  const categoryIds = categories.map(category => category.id);
+
+  return {
+    outputFormat: questionOutputFormat(categoryIds),
+    questionCount: variables.questionCount ? String(variables.questionCount) : '5-7',
+    optionCount: String(variables.optionCount || DEFAULT_OPTION_COUNT),
+    categories: categoryIds.join(', '),
+    categoryDescriptions: categories.map(category => `- ${category.id}: ${category.description}`).join('\n'),
+    language: variables.language || DEFAULT_LANGUAGE[type],
+    tone: variables.tone || 'clear and neutral',
+  };
+};
+
+/**
+ * Problems that keep a template from being used: missing required placeholders and unknown ones
+ */
+export function findPlaceholderIssues(type: PromptType, content: string): string[] {
+  const known = PROMPT_PLACEHOLDERS[type];
+  const used = new Set(Array.from(content.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+  const issues: string[] = [];
+
+  for (const placeholder of known) {
+    if (placeholder.required && !used.has(placeholder.name)) {
+      issues.push(`Missing required placeholder {{${placeholder.name}}}`);
+    }
+  }
+  for (const name of used) {
+    if (!known.some(placeholder => placeholder.name === name)) {
+      issues.push(`Unknown placeholder {{${name}}} for ${type} prompts`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Fill in a template's placeholders. Placeholders the type does not know are left as they are.
+ */
+export function renderPromptTemplate(type: PromptType, content: string, variables: PromptVariables = {}): string {
+  const values = placeholderValues(type, variables);
+  const known = new Set(PROMPT_PLACEHOLDERS[type].map(placeholder => placeholder.name));
+  return content.replace(PLACEHOLDER_PATTERN, (match, name: string) => known.has(name) ? values[name] : match);
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 /**
  * Base refinement prompt used to refine user prompts based on their answers
- * This prompt takes the original prompt and user answers to create a refined version
+ * This prompt takes the original prompt and user answers to create a refined version.
+ * {{placeholders}} are filled in per request, see ../placeholders.ts
  */
 export const baseRefinementPrompt = `You are a prompt refinement assistant. Your task is to take the user's original prompt and their answers to targeted questions, then create a refined, more specific version of the prompt.
 
@@ -16,5 +17,6 @@ The refined prompt should be:
 - Actionable
 - Well-structured
 - Preserving the original voice and style when possible
+- Written in {{language}}
 
 Return only the refined prompt text, without any additional commentary or formatting.`;
\ No newline at end of file
@@ -0,0 +1,14 @@
+/**
+ * Line that separates the refined prompt from its change log in the model's output
+ */
+export const CHANGE_LOG_MARKER = '===CHANGES===';
+
+/**
+ * Appended to the refinement request when the caller asks for an explanation of the changes.
+ * Questions are referred to by their number in the "Questions and answers" list.
+ */
+export const changeLogInstructions = `After the refined prompt, add a change log. This is the only addition allowed after the prompt text.
+Write a line containing exactly ${CHANGE_LOG_MARKER}, then a JSON array with one object per change you made:
+[{"change": "what was changed in the prompt", "reason": "why it was changed", "question": 1}]
+
+"question" is the number of the question whose answer drove the change (1 for Q1), or null when the change is a general improvement not tied to any answer. Keep each "change" and "reason" to one sentence, written in the language of the refined prompt.`;
\ No newline at end of file
@@ -1,21 +1,27 @@
 import axios from 'axios';
-import { BaseLLMProvider } from './base';
-import { Question, Answer, GenerationOptions, RefinementOptions } from '../types';
-import config from '../config';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import { Question, Answer, GenerationOptions, RefinementOptions, LLMProviderType, ModelInfo } from '../types';
+import config, { PROVIDER_CONFIGS } from '../config';
 import { handleProviderError, errorLogger } from '../utils/errorHandler';
+import { readServerSentEvents } from '../utils/streaming';
+import { createQuestionsJsonSchema } from '../utils/questionSchema';
+import { changeLogInstructions } from '../prompts';
+import { formatAnswerResponse } from '../utils/answers';
+
+// Question generation forces a call to this tool, so the questions arrive as schema-shaped tool input
+const QUESTIONS_TOOL_NAME = 'submit_questions';
+
+const questionsTool = (categories: string[]) => ({
+  name: QUESTIONS_TOOL_NAME,
+  description: 'Submit the questions that will help the user refine their prompt.',
+  input_schema: createQuestionsJsonSchema(categories),
+});
 
 export class AnthropicProvider extends BaseLLMProvider {
   readonly id = 'anthropic';
   readonly name = 'anthropic';
   readonly displayName = 'Anthropic Claude';
-  readonly supportedModels = [
-    'claude-3-5-sonnet-20241022',   // Latest stable Claude 3.5 Sonnet
-    'claude-3-5-sonnet-20240620',   // Previous Claude 3.5 Sonnet
-    'claude-3-5-haiku-20241022',    // Latest Claude 3.5 Haiku
-    'claude-3-haiku-20240307',      // Claude 3 Haiku
-    'claude-3-opus-20240229',       // Claude 3 Opus
-    'claude-3-sonnet-20240229',     // Claude 3 Sonnet
-  ];
+  readonly supportedModels = PROVIDER_CONFIGS[LLMProviderType.ANTHROPIC].supportedModels;
 
   private apiKey: string | null = null;
   private baseUrl!: string;
@@ -44,20 +50,68 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw new Error('Anthropic API key is not configured.');
     }
 
-    const response = await axios.post(
+    const apiKey = this.apiKey;
+    const response = await this.withRetry('messages call', () => axios.post(
       `${this.baseUrl}/messages`,
       payload,
       {
         headers: {
-          'x-api-key': this.apiKey,
+          'x-api-key': apiKey,
           'anthropic-version': '2023-06-01',
           'content-type': 'application/json',
         },
       }
-    );
+    ));
     return response.data;
   }
 
+  /**
+   * Stream a messages call, yielding text and tool-input deltas. Token counts arrive split
+   * across message_start (input) and message_delta (output) and are reported once the stream ends.
+   */
+  private async *makeStreamingApiCall(
+    payload: any,
+    onUsage?: (inputTokens?: number, outputTokens?: number) => void
+  ): AsyncGenerator<string> {
+    if (!this.apiKey) {
+      throw new Error('Anthropic API key is not configured.');
+    }
+
+    const apiKey = this.apiKey;
+    const response = await this.withRetry('messages stream', () => axios.post(
+      `${this.baseUrl}/messages`,
+      { ...payload, stream: true },
+      {
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'content-type': 'application/json',
+        },
+        responseType: 'stream',
+      }
+    ));
+
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    for await (const data of readServerSentEvents(response.data)) {
+      const event = JSON.parse(data);
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens;
+      } else if (event.type === 'message_stop') {
+        onUsage?.(inputTokens, outputTokens);
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        // Tool input arrives as fragments of its JSON text
+        yield event.delta.partial_json;
+      } else if (event.type === 'error') {
+        throw new Error(event.error?.message || 'Anthropic stream error');
+      }
+    }
+  }
+
   async validateApiKey(apiKey: string): Promise<boolean> {
     errorLogger.info('Validating Anthropic API key');
     try {
@@ -84,6 +138,27 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
   }
 
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.apiKey) {
+      throw new Error('Anthropic API key is not configured.');
+    }
+
+    const apiKey = this.apiKey;
+    const response = await this.withRetry('model listing', () => axios.get(`${this.baseUrl}/models`, {
+      params: { limit: 100 },
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+    }));
+
+    return (response.data?.data || []).map((model: any) => ({
+      id: model.id,
+      displayName: model.display_name,
+      source: 'discovered' as const,
+    }));
+  }
+
   async generateQuestions(
     prompt: string,
     options?: GenerationOptions
@@ -102,19 +177,26 @@ export class AnthropicProvider extends BaseLLMProvider {
         messages: [
           {
             role: 'user' as const,
-            content: `${this.buildSystemPrompt('generation')}\n\nPlease generate ${maxQuestions} targeted questions with 3 options each to help refine this prompt:\n\n"${prompt}"\n\nRemember to focus on clarity, specificity, context, and constraints. Each question should have exactly 3 meaningful options with the middle option as the default.`,
+            content: `${this.buildSystemPrompt('generation', model, options)}\n\n${this.buildGenerationUserMessage(prompt, maxQuestions, options)}`,
           },
         ],
+        tools: [questionsTool(this.getQuestionCategoryIds(options))],
+        tool_choice: { type: 'tool', name: QUESTIONS_TOOL_NAME },
       };
       
       const response = await this.makeApiCall(payload);
+      this.reportUsage(options, 'generation', model, response.usage?.input_tokens, response.usage?.output_tokens);
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
+      const toolInput = this.getQuestionsToolInput(response);
+      if (toolInput === null) {
         throw new Error('Unexpected response type from Anthropic');
       }
 
-      const questions = this.parseQuestionsFromResponse(content.text);
+      const questions = await this.parseQuestionsWithRepair(
+        toolInput,
+        this.requestQuestionRepair(prompt, model, maxQuestions, options),
+        options
+      );
       if (questions.length === 0) {
         throw new Error('Anthropic returned an invalid response format. Unable to parse questions from the response.');
       }
@@ -124,21 +206,102 @@ export class AnthropicProvider extends BaseLLMProvider {
       
       // Enhance error with more specific information
       if (error.response?.status === 401) {
-        throw new Error('Anthropic API key is invalid or expired. Please check your API key configuration.');
+        throw this.providerError('Anthropic API key is invalid or expired. Please check your API key configuration.', error);
       } else if (error.response?.status === 429) {
-        throw new Error('Anthropic rate limit exceeded. Please wait a moment before trying again or upgrade your plan.');
+        throw this.providerError('Anthropic rate limit exceeded. Please wait a moment before trying again or upgrade your plan.', error);
       } else if (error.response?.status === 404) {
-        throw new Error(`Anthropic model "${model}" is not available or accessible with your current plan.`);
+        throw this.providerError(`Anthropic model "${model}" is not available or accessible with your current plan.`, error);
       } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        throw new Error('Unable to connect to Anthropic. Please check your internet connection.');
+        throw this.providerError('Unable to connect to Anthropic. Please check your internet connection.', error);
       } else if (error.message?.includes('parse questions')) {
         throw error; // Re-throw parsing errors as-is
       } else {
-        throw new Error(`Anthropic API error: ${error.message || 'Unknown error occurred'}`);
+        throw this.providerError(`Anthropic API error: ${error.message || 'Unknown error occurred'}`, error);
+      }
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    if (!this.isAvailable()) {
+      throw new Error('Anthropic provider not available.');
+    }
+
+    const model = options?.model || 'claude-3-5-sonnet-20240620';
+    const maxQuestions = options?.maxQuestions || 7;
+
+    try {
+      const payload = {
+        model,
+        max_tokens: 2000,
+        messages: [
+          {
+            role: 'user' as const,
+            content: `${this.buildSystemPrompt('generation', model, options)}\n\n${this.buildGenerationUserMessage(prompt, maxQuestions, options)}`,
+          },
+        ],
+        tools: [questionsTool(this.getQuestionCategoryIds(options))],
+        tool_choice: { type: 'tool', name: QUESTIONS_TOOL_NAME },
+      };
+
+      yield* this.parseQuestionStream(
+        this.makeStreamingApiCall(payload, (inputTokens, outputTokens) =>
+          this.reportUsage(options, 'generation', model, inputTokens, outputTokens)
+        ),
+        maxQuestions,
+        this.requestQuestionRepair(prompt, model, maxQuestions, options),
+        options
+      );
+    } catch (error: any) {
+      errorLogger.error('Question generation stream failed', error, { provider: 'anthropic' });
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
       }
+      throw this.providerError(`Anthropic API error: ${error.message || 'Unknown error occurred'}`, error);
     }
   }
 
+  private getQuestionsToolInput(response: any): string | null {
+    const toolUse = response.content?.find((block: any) => block.type === 'tool_use' && block.name === QUESTIONS_TOOL_NAME);
+    return toolUse ? JSON.stringify(toolUse.input) : null;
+  }
+
+  private requestQuestionRepair(
+    prompt: string,
+    model: string,
+    maxQuestions: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => {
+      const response = await this.makeApiCall({
+        model,
+        max_tokens: 2000,
+        messages: [
+          {
+            role: 'user' as const,
+            content: `${this.buildSystemPrompt('generation', model, options)}\n\n${this.buildGenerationUserMessage(prompt, maxQuestions, options)}`,
+          },
+          {
+            role: 'assistant' as const,
+            // The API rejects empty assistant turns
+            content: invalidOutput || '(empty response)',
+          },
+          {
+            role: 'user' as const,
+            content: this.buildRepairUserMessage(issues),
+          },
+        ],
+        tools: [questionsTool(this.getQuestionCategoryIds(options))],
+        tool_choice: { type: 'tool', name: QUESTIONS_TOOL_NAME },
+      });
+
+      this.reportUsage(options, 'repair', model, response.usage?.input_tokens, response.usage?.output_tokens);
+      return this.getQuestionsToolInput(response) || '';
+    };
+  }
+
   async refinePrompt(
     originalPrompt: string,
     questions: Question[],
@@ -150,7 +313,7 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
 
     const model = options?.model || 'claude-3-5-sonnet-20240620';
-    const conversation = this.buildRefinementConversation(originalPrompt, questions, answers);
+    const conversation = this.buildRefinementConversation(model, originalPrompt, questions, answers, options);
 
     try {
       const payload = {
@@ -165,7 +328,8 @@ export class AnthropicProvider extends BaseLLMProvider {
       };
       
       const response = await this.makeApiCall(payload);
-      
+      this.reportUsage(options, 'refinement', model, response.usage?.input_tokens, response.usage?.output_tokens);
+
       const content = response.content[0];
       if (content.type !== 'text') {
         throw new Error('Unexpected response type from Anthropic');
@@ -173,33 +337,74 @@ export class AnthropicProvider extends BaseLLMProvider {
       return this.parseRefinedPromptFromResponse(content.text);
     } catch (error) {
       errorLogger.error('Prompt refinement failed', error, { provider: 'anthropic' });
-      return originalPrompt; // Fallback to original prompt
+      throw this.providerError('Failed to refine prompt using Anthropic', error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    if (!this.isAvailable()) {
+      throw new Error('Anthropic provider not available.');
+    }
+
+    const model = options?.model || 'claude-3-5-sonnet-20240620';
+    const conversation = this.buildRefinementConversation(model, originalPrompt, questions, answers, options);
+
+    try {
+      const payload = {
+        model,
+        max_tokens: 4000,
+        messages: [
+          {
+            role: 'user' as const,
+            content: conversation,
+          },
+        ],
+      };
+
+      for await (const token of this.makeStreamingApiCall(payload, (inputTokens, outputTokens) =>
+        this.reportUsage(options, 'refinement', model, inputTokens, outputTokens)
+      )) {
+        yield token;
+      }
+    } catch (error) {
+      errorLogger.error('Prompt refinement stream failed', error, { provider: 'anthropic' });
+      throw this.providerError('Failed to refine prompt using Anthropic', error);
     }
   }
 
   private buildRefinementConversation(
+    model: string,
     originalPrompt: string,
     questions: Question[],
-    answers: Answer[]
+    answers: Answer[],
+    options?: RefinementOptions
   ): string {
     let conversation = `${this.buildSystemPrompt(
-      'refinement'
+      'refinement',
+      model,
+      options
     )}\n\nOriginal prompt: "${originalPrompt}"\n\nQuestions and answers:\n`;
     
     const answerMap = new Map(answers.map(a => [a.questionId, a.response]));
     
-    questions.forEach(q => {
+    questions.forEach((q, index) => {
       const answer = answerMap.get(q.id);
+      // Numbered so the change log can refer to the question
+      const label = options?.explainChanges ? `Q${index + 1}. ${q.text}` : q.text;
       if (answer !== undefined) {
-        if (typeof answer === 'boolean') {
-          conversation += `- ${q.text}: ${answer ? 'Yes' : 'No'}\n`;
-        } else {
-          conversation += `- ${q.text}: ${answer}\n`;
-        }
+        conversation += `- ${label}: ${formatAnswerResponse(q, answer)}\n`;
       }
     });
 
     conversation += `\nPlease create a refined version of the original prompt based on these answers.`;
+    if (options?.explainChanges) {
+      conversation += `\n\n${changeLogInstructions}`;
+    }
     return conversation;
   }
 
@@ -258,6 +463,7 @@ export class AnthropicProvider extends BaseLLMProvider {
       id: this.generateQuestionId(),
       text: q.text,
       order: index,
+      type: 'single-choice' as const,
       category: q.category,
       impact: q.impact,
       explanation: q.explanation,
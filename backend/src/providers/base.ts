@@ -1,5 +1,26 @@
-import { ILLMProvider, Question, Answer, GenerationOptions, RefinementOptions } from '../types';
-import { getPrompt, type ProviderId, type PromptType } from '../prompts';
+import { ILLMProvider, Question, Answer, GenerationOptions, RefinementOptions, RetryPolicy, ModelInfo, ProviderCallUsage } from '../types';
+import { changeLogInstructions, renderPromptTemplate, type PromptType } from '../prompts';
+import { IncrementalQuestionParser } from '../utils/incrementalJson';
+import { ProviderError, classifyProviderError, getRetryAfterMs } from '../utils/errorHandler';
+import { createGeneratedQuestionSchema, describeSchemaIssues, resolveQuestionCategories } from '../utils/questionSchema';
+import { formatAnswerResponse } from '../utils/answers';
+import { promptTemplateService } from '../services/promptTemplateService';
+import config from '../config';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends the model its invalid question output together with the validation issues
+ * and resolves to the corrected output
+ */
+export type QuestionRepairRequest = (invalidOutput: string, issues: string[]) => Promise<string>;
+
+interface ValidatedQuestions {
+  questions: Question[];
+  issues: string[];
+}
+
+type GeneratedQuestionSchema = ReturnType<typeof createGeneratedQuestionSchema>;
 
 export abstract class BaseLLMProvider implements ILLMProvider {
   abstract readonly id: string;
@@ -8,6 +29,7 @@ export abstract class BaseLLMProvider implements ILLMProvider {
   abstract readonly supportedModels: string[];
 
   abstract validateApiKey(apiKey: string): Promise<boolean>;
+  abstract listModels(): Promise<ModelInfo[]>;
   abstract generateQuestions(
     prompt: string,
     options?: GenerationOptions
@@ -19,59 +41,342 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     options?: RefinementOptions
   ): Promise<string>;
 
+  /**
+   * Stream questions one at a time as soon as each is complete.
+   * Providers without native streaming fall back to yielding the full batch.
+   */
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    const questions = await this.generateQuestions(prompt, options);
+    for (const question of questions) {
+      yield question;
+    }
+  }
+
+  /**
+   * Stream the refined prompt as it is generated.
+   * Providers without native streaming fall back to yielding the whole refinement at once.
+   */
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    yield await this.refinePrompt(originalPrompt, questions, answers, options);
+  }
+
+  protected getRetryPolicy(): RetryPolicy {
+    return {
+      ...config.retry.defaults,
+      ...config.retry.providers[this.id],
+    };
+  }
+
+  /**
+   * Run one provider API call under this provider's retry policy: retryable failures are
+   * retried with exponential backoff and jitter, or after the provider's Retry-After delay.
+   * For streams, wrap only the call that opens the stream.
+   */
+  protected async withRetry<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const policy = this.getRetryPolicy();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await call();
+        if (attempt > 1) {
+          console.log(`${this.displayName} ${operation} succeeded after ${attempt - 1} retries`);
+        }
+        return result;
+      } catch (error: any) {
+        const errorClass = classifyProviderError(error);
+        const delay = this.getRetryDelay(policy, attempt, error);
+
+        if (attempt >= policy.maxAttempts || !policy.retryOn.includes(errorClass) || delay === null) {
+          if (attempt > 1) {
+            console.error(`${this.displayName} ${operation} failed after ${attempt} attempts (${errorClass})`);
+          }
+          throw error;
+        }
+
+        console.warn(`${this.displayName} ${operation} failed with ${errorClass}; retry ${attempt}/${policy.maxAttempts - 1} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Backoff before the next attempt, or null when the provider asks for a longer wait
+   * than maxDelayMs (better to give up, or fail over, than to hold the request open)
+   */
+  private getRetryDelay(policy: RetryPolicy, attempt: number, error: any): number | null {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= policy.maxDelayMs ? Math.ceil(retryAfter) : null;
+    }
+
+    const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    // Equal jitter: half fixed, half random, so concurrent requests do not retry in lockstep
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Pass the token counts of one API call to options.onUsage. Calls whose response
+   * carries no usage are skipped rather than counted as zero tokens.
+   */
+  protected reportUsage(
+    options: GenerationOptions | RefinementOptions | undefined,
+    operation: ProviderCallUsage['operation'],
+    model: string,
+    inputTokens?: number | null,
+    outputTokens?: number | null
+  ): void {
+    if (!options?.onUsage || (inputTokens == null && outputTokens == null)) {
+      return;
+    }
+
+    options.onUsage({
+      llmProvider: this.id,
+      model,
+      operation,
+      inputTokens: inputTokens || 0,
+      outputTokens: outputTokens || 0,
+    });
+  }
+
+  /**
+   * Wrap a failed call in a ProviderError that keeps the upstream error (and its HTTP status),
+   * so failover can tell rate limits and outages apart from bad requests
+   */
+  protected providerError(message: string, error: any): ProviderError {
+    const status = error?.status ?? error?.response?.status;
+    return new ProviderError(message, this.id, undefined, error, typeof status === 'number' ? status : undefined);
+  }
+
   protected generateQuestionId(): string {
     return `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  protected formatQuestionsForPrompt(questions: Question[], answers: Answer[]): string {
-    const answeredQuestions = questions.map(q => {
+  /**
+   * Numbered questions ("Q1:") can be referred to from the change log
+   */
+  protected formatQuestionsForPrompt(questions: Question[], answers: Answer[], numbered = false): string {
+    const answeredQuestions = questions.map((q, index) => {
       const answer = answers.find(a => a.questionId === q.id);
-      let answerText = 'Not answered';
-      
-      if (answer) {
-        if (typeof answer.response === 'boolean') {
-          // Handle legacy boolean answers
-          answerText = answer.response ? 'Yes' : 'No';
-        } else {
-          // Handle new string answers
-          answerText = answer.response.toString();
-        }
-      }
-      
-      return `Q: ${q.text}\nA: ${answerText}`;
+      const answerText = answer ? formatAnswerResponse(q, answer.response) : 'Not answered';
+
+      return `Q${numbered ? index + 1 : ''}: ${q.text}\nA: ${answerText}`;
     });
 
     return answeredQuestions.join('\n\n');
   }
 
-  protected buildSystemPrompt(type: PromptType): string {
-    return getPrompt(this.id as ProviderId, type);
+  /**
+   * Follow-up generation adds the answers so far, so the new questions build on them
+   * instead of asking what they already settle
+   */
+  protected buildGenerationUserMessage(prompt: string, maxQuestions: number, options?: GenerationOptions): string {
+    const questions = maxQuestions === 1 ? 'question' : 'questions';
+    const message = `Please generate ${maxQuestions} targeted ${questions} to help refine this prompt:\n\n"${prompt}"\n\nRemember to ask only about the question categories you were given, and to give each question the type that fits it. Single-choice questions should have exactly 3 meaningful options with the middle option as the default.`;
+
+    const followUp = options?.followUp;
+    if (!followUp) {
+      return message;
+    }
+
+    const answered = followUp.questions.filter(q => followUp.answers.some(a => a.questionId === q.id));
+    const parent = answered.find(q => q.id === followUp.parentQuestionId);
+    const buildOn = parent ? `, building on the answer to "${parent.text}"` : '';
+    return `${message}\n\nThe user has already answered these questions:\n${this.formatQuestionsForPrompt(answered, followUp.answers)}\n\nAsk the next ${questions}${buildOn}. Do not ask about anything these answers already settle.`;
+  }
+
+  protected buildRepairUserMessage(issues: string[]): string {
+    return `Your previous response could not be used because it failed validation:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply with the corrected JSON only, in the same {"questions": [...]} format. Fix these problems and keep everything else unchanged.`;
   }
 
-  protected parseQuestionsFromResponse(response: string): Question[] {
+  protected buildRefinementUserMessage(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): string {
+    const questionsAndAnswers = this.formatQuestionsForPrompt(questions, answers, options?.explainChanges);
+    const message = `Original prompt: "${originalPrompt}"\n\nQuestions and answers:\n${questionsAndAnswers}\n\nPlease create a refined version of the original prompt based on these answers.`;
+    return options?.explainChanges ? `${message}\n\n${changeLogInstructions}` : message;
+  }
+
+  /**
+   * The most specific prompt for this provider and model (see PromptTemplateService.resolvePrompt),
+   * rendered with the question count, categories, language and tone of the request
+   */
+  protected buildSystemPrompt(type: PromptType, model?: string, options?: GenerationOptions | RefinementOptions): string {
+    const { content } = promptTemplateService.resolvePrompt(this.id, type, model);
+    const generation: GenerationOptions | undefined = type === 'generation' ? options : undefined;
+
+    return renderPromptTemplate(type, content, {
+      questionCount: generation?.maxQuestions,
+      categories: resolveQuestionCategories(generation?.categories),
+      language: options?.language,
+      tone: options?.tone,
+    });
+  }
+
+  /**
+   * Ids of the categories questions may be asked from: those selected in the options, or all of them
+   */
+  protected getQuestionCategoryIds(options?: GenerationOptions): string[] {
+    return resolveQuestionCategories(options?.categories).map(category => category.id);
+  }
+
+  protected parseQuestionsFromResponse(response: string, options?: GenerationOptions): Question[] {
     console.log('Parsing LLM response:', response.substring(0, 500) + '...');
+    const { questions, issues } = this.validateQuestionsOutput(response, options);
+    if (issues.length > 0) {
+      console.warn(`Rejected invalid output from ${this.displayName}: ${issues.join('; ')}`);
+    }
+    console.log(`Parsed ${questions.length} valid questions from LLM`);
+    return questions;
+  }
+
+  /**
+   * Like parseQuestionsFromResponse, but when the output is not valid JSON or any question fails
+   * the schema, the model is asked to correct it, up to QUESTION_REPAIR_ATTEMPTS times. Each attempt
+   * is reported through options.onRepairAttempt. If repairs do not help, the valid questions are kept.
+   */
+  protected async parseQuestionsWithRepair(
+    output: string,
+    repair: QuestionRepairRequest,
+    options?: GenerationOptions
+  ): Promise<Question[]> {
+    console.log('Parsing LLM response:', output.substring(0, 500) + '...');
+    let result = this.validateQuestionsOutput(output, options);
+    const maxAttempts = config.questionRepair.maxAttempts;
+
+    for (let attempt = 1; result.issues.length > 0 && attempt <= maxAttempts; attempt++) {
+      console.warn(`${this.displayName} question output failed validation (${result.issues.join('; ')}); repair attempt ${attempt}/${maxAttempts}`);
+
+      let repairedOutput: string;
+      let repaired: ValidatedQuestions;
+      try {
+        repairedOutput = await repair(output, result.issues);
+        repaired = this.validateQuestionsOutput(repairedOutput, options);
+      } catch (error: any) {
+        console.error(`${this.displayName} repair attempt ${attempt} failed: ${error.message || 'Unknown error occurred'}`);
+        options?.onRepairAttempt?.({ llmProvider: this.id, attempt, issues: result.issues, succeeded: false });
+        break;
+      }
+
+      const succeeded = repaired.issues.length === 0;
+      options?.onRepairAttempt?.({ llmProvider: this.id, attempt, issues: result.issues, succeeded });
+      console.log(succeeded
+        ? `${this.displayName} repair attempt ${attempt} produced valid questions`
+        : `${this.displayName} repair attempt ${attempt} is still invalid: ${repaired.issues.join('; ')}`);
+
+      // Keep whichever version has more usable questions
+      if (repaired.questions.length >= result.questions.length) {
+        output = repairedOutput;
+        result = repaired;
+      }
+    }
+
+    console.log(`Parsed ${result.questions.length} valid questions from LLM`);
+    return result.questions;
+  }
+
+  private validateQuestionsOutput(output: string, options?: GenerationOptions): ValidatedQuestions {
+    let parsed: any;
     try {
-      const parsed = JSON.parse(response);
-      if (parsed.questions && Array.isArray(parsed.questions)) {
-        console.log(`Successfully parsed ${parsed.questions.length} questions from LLM`);
-        return parsed.questions.map((q: any, index: number) => ({
-          id: this.generateQuestionId(),
-          text: q.text,
-          order: index,
-          category: q.category || 'clarity',
-          impact: q.impact || 'medium',
-          explanation: q.explanation,
-          options: q.options || ['Yes', 'Maybe', 'No'],
-          defaultOption: q.defaultOption || 1,
-        }));
+      parsed = JSON.parse(output);
+    } catch (error: any) {
+      return { questions: [], issues: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    if (!Array.isArray(parsed?.questions)) {
+      return { questions: [], issues: ['Response must be a JSON object with a "questions" array'] };
+    }
+
+    const schema = createGeneratedQuestionSchema(this.getQuestionCategoryIds(options));
+    const questions: Question[] = [];
+    const issues: string[] = [];
+    parsed.questions.forEach((rawQuestion: unknown, index: number) => {
+      const result = this.validateQuestion(rawQuestion, questions.length, schema);
+      if (result.question) {
+        questions.push(result.question);
       } else {
-        console.warn('LLM response missing questions array:', parsed);
+        issues.push(`questions[${index}]: ${result.issues}`);
       }
-    } catch (error) {
-      console.error('Failed to parse questions response:', error);
-      console.error('Raw response was:', response);
+    });
+
+    return { questions, issues };
+  }
+
+  /**
+   * Validate one generated question against the shared question schema. Malformed questions
+   * are dropped (or repaired by the model) rather than patched up with made-up categories or options.
+   */
+  private validateQuestion(
+    rawQuestion: unknown,
+    order: number,
+    schema: GeneratedQuestionSchema
+  ): { question?: Question; issues?: string } {
+    const result = schema.safeParse(rawQuestion);
+    if (!result.success) {
+      return { issues: describeSchemaIssues(result.error) };
+    }
+
+    return {
+      question: {
+        id: this.generateQuestionId(),
+        order,
+        ...result.data,
+      },
+    };
+  }
+
+  /**
+   * Turn a stream of generation tokens into questions, yielding each one as soon
+   * as its JSON object closes
+   */
+  protected async *parseQuestionStream(
+    tokens: AsyncIterable<string>,
+    maxQuestions: number,
+    repair?: QuestionRepairRequest,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    const parser = new IncrementalQuestionParser();
+    const schema = createGeneratedQuestionSchema(this.getQuestionCategoryIds(options));
+    let output = '';
+    let count = 0;
+
+    for await (const token of tokens) {
+      output += token;
+      for (const rawQuestion of parser.push(token)) {
+        const result = this.validateQuestion(rawQuestion, count, schema);
+        if (!result.question) {
+          console.warn(`Rejected invalid question from ${this.displayName}: ${result.issues}`);
+          continue;
+        }
+        yield result.question;
+        count++;
+        if (count >= maxQuestions) {
+          return; // Stops the underlying provider stream
+        }
+      }
+    }
+
+    // Nothing usable was streamed: repair the whole output instead
+    if (count === 0 && repair) {
+      const questions = await this.parseQuestionsWithRepair(output, repair, options);
+      for (const question of questions.slice(0, maxQuestions)) {
+        yield question;
+        count++;
+      }
+    }
+
+    if (count === 0) {
+      throw new Error(`${this.displayName} returned an invalid response format. Unable to parse questions from the response.`);
     }
-    console.log('Falling back to hardcoded questions');
-    return [];
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
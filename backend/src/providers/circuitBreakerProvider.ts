@@ -0,0 +1,123 @@
+import { ILLMProvider, Question, Answer, GenerationOptions, RefinementOptions, ModelInfo } from '../types';
+import { CircuitBreaker } from '../utils/circuitBreaker';
+import { ProviderError, classifyProviderError } from '../utils/errorHandler';
+
+/**
+ * Decorates a provider with a circuit breaker. Every generation/refinement call is timed and
+ * its outcome recorded; while the circuit is open, calls fail fast with a 503 ProviderError
+ * (which the failover chain treats as an outage).
+ */
+export class CircuitBreakerProvider implements ILLMProvider {
+  constructor(
+    private readonly provider: ILLMProvider,
+    readonly breaker: CircuitBreaker
+  ) {}
+
+  get id(): string {
+    return this.provider.id;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get displayName(): string {
+    return this.provider.displayName;
+  }
+
+  // A getter so providers that discover their models after construction stay current
+  get supportedModels(): string[] {
+    return this.provider.supportedModels;
+  }
+
+  validateApiKey(apiKey: string): Promise<boolean> {
+    // Key checks are not user traffic and should not move the circuit
+    return this.provider.validateApiKey(apiKey);
+  }
+
+  listModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
+  }
+
+  generateQuestions(prompt: string, options?: GenerationOptions): Promise<Question[]> {
+    return this.guard(() => this.provider.generateQuestions(prompt, options));
+  }
+
+  generateQuestionsStream(prompt: string, options?: GenerationOptions): AsyncIterable<Question> {
+    return this.guardStream(() => this.provider.generateQuestionsStream(prompt, options));
+  }
+
+  refinePrompt(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): Promise<string> {
+    return this.guard(() => this.provider.refinePrompt(originalPrompt, questions, answers, options));
+  }
+
+  refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncIterable<string> {
+    return this.guardStream(() => this.provider.refinePromptStream(originalPrompt, questions, answers, options));
+  }
+
+  private async guard<T>(call: () => Promise<T>): Promise<T> {
+    this.acquire();
+    const startedAt = Date.now();
+
+    try {
+      const result = await call();
+      this.breaker.recordSuccess(Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.recordError(error, Date.now() - startedAt);
+      throw error;
+    }
+  }
+
+  private async *guardStream<T>(call: () => AsyncIterable<T>): AsyncGenerator<T> {
+    this.acquire();
+    const startedAt = Date.now();
+    let settled = false;
+
+    try {
+      yield* call();
+    } catch (error) {
+      settled = true;
+      this.recordError(error, Date.now() - startedAt);
+      throw error;
+    } finally {
+      // Also reached when the consumer stops early, which says nothing bad about the provider
+      if (!settled) {
+        this.breaker.recordSuccess(Date.now() - startedAt);
+      }
+    }
+  }
+
+  private acquire(): void {
+    if (!this.breaker.tryAcquire()) {
+      const retryInSeconds = Math.max(1, Math.ceil(this.breaker.getRetryInMs() / 1000));
+      throw new ProviderError(
+        `${this.displayName} is temporarily unavailable after repeated failures. Please try again in ${retryInSeconds}s or choose a different provider.`,
+        this.id,
+        undefined,
+        undefined,
+        503
+      );
+    }
+  }
+
+  private recordError(error: any, latencyMs: number): void {
+    const errorClass = classifyProviderError(error);
+    // A rejected request still means the provider is up and answering
+    if (errorClass === 'validation') {
+      this.breaker.recordSuccess(latencyMs);
+    } else {
+      this.breaker.recordFailure(error, errorClass, latencyMs);
+    }
+  }
+}
\ No newline at end of file
@@ -1,12 +1,31 @@
-import { ILLMProvider, LLMProvider, LLMProviderType } from '../types';
+import {
+  ILLMProvider,
+  LLMProvider,
+  LLMProviderType,
+  ModelInfo,
+  OpenAICompatibleProviderConfig,
+  ProviderConfig,
+  ProviderHealth,
+  ProviderUnavailableReason,
+} from '../types';
 import { PROVIDER_CONFIGS } from '../config';
-import { OpenAIProvider } from './openai';
-import { AnthropicProvider } from './anthropic';
-import { GroqProvider } from './groq';
+import { providerRegistry } from './registry';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { CircuitBreakerProvider } from './circuitBreakerProvider';
+import { CircuitBreaker } from '../utils/circuitBreaker';
+import { ModelCatalog } from './modelCatalog';
 import config from '../config';
 
+export interface ProviderUnavailability {
+  reason: ProviderUnavailableReason;
+  message: string;
+}
+
 export class LLMProviderFactory {
-  private providers: Map<string, ILLMProvider> = new Map();
+  private providers: Map<string, CircuitBreakerProvider> = new Map();
+  private unavailable: Map<string, ProviderUnavailability> = new Map();
+  private providerConfigs: Map<string, ProviderConfig> = new Map();
+  private modelCatalog = new ModelCatalog(config.models.cacheTtlMs);
   private static instance: LLMProviderFactory;
 
   private constructor() {
@@ -21,26 +40,150 @@ export class LLMProviderFactory {
   }
 
   private initializeProviders(): void {
-    console.log('inside initializeProviders');
-
-    // Initialize OpenAI provider
-    // if (config.llmProviders.openai?.apiKey) {
-    //   this.providers.set('openai', new OpenAIProvider());
-    // }
-
-    // Initialize Anthropic provider
-    // if (config.llmProviders.anthropic?.apiKey) {
-    //   console.log('anthropic provider is initialized');
-    //   this.providers.set('anthropic', new AnthropicProvider());
-    // }
-
-    // Initialize Groq provider
-    if (config.llmProviders.groq?.apiKey) {
-      console.log('groq provider is initialized');
-      this.providers.set('groq', new GroqProvider());
+    for (const providerType of Object.values(LLMProviderType)) {
+      const providerConfig = PROVIDER_CONFIGS[providerType];
+      this.providerConfigs.set(providerType, providerConfig);
+
+      if (!this.isEnabled(providerType)) {
+        this.markUnavailable(providerType, 'disabled', `${providerConfig.displayName} is not listed in ENABLED_PROVIDERS`);
+        continue;
+      }
+
+      if (!config.llmProviders[providerType]) {
+        this.markUnavailable(providerType, 'missing_credentials', `${providerConfig.apiKeyName} is not set`);
+        continue;
+      }
+
+      try {
+        const ProviderClass = providerRegistry[providerType];
+        this.setProvider(new ProviderClass());
+        console.log(`${providerType} provider is initialized`);
+      } catch (error: any) {
+        this.markUnavailable(
+          providerType,
+          'initialization_failed',
+          `${providerConfig.displayName} failed to initialize: ${error.message || 'Unknown error'}`
+        );
+      }
+    }
+
+    for (const compatibleConfig of config.openAICompatibleProviders) {
+      this.initializeOpenAICompatibleProvider(compatibleConfig);
+    }
+  }
+
+  private initializeOpenAICompatibleProvider(compatibleConfig: OpenAICompatibleProviderConfig): void {
+    const { id, displayName } = compatibleConfig;
+
+    if (this.providerConfigs.has(id)) {
+      console.error(`Skipping OpenAI-compatible provider '${id}': the id is already in use`);
+      return;
+    }
+
+    this.providerConfigs.set(id, {
+      id,
+      name: id,
+      displayName,
+      apiKeyName: compatibleConfig.apiKeyEnv || 'OPENAI_COMPATIBLE_PROVIDERS',
+      baseUrl: compatibleConfig.baseUrl,
+      supportedModels: compatibleConfig.models,
+      isEnabled: true,
+      defaultModel: compatibleConfig.defaultModel || compatibleConfig.models[0],
+    });
+
+    if (!this.isEnabled(id)) {
+      this.markUnavailable(id, 'disabled', `${displayName} is not listed in ENABLED_PROVIDERS`);
+      return;
+    }
+
+    if (compatibleConfig.apiKeyEnv && !compatibleConfig.apiKey) {
+      this.markUnavailable(id, 'missing_credentials', `${compatibleConfig.apiKeyEnv} is not set`);
+      return;
+    }
+
+    try {
+      this.setProvider(new OpenAICompatibleProvider(compatibleConfig));
+      console.log(`${id} provider is initialized (OpenAI-compatible, ${compatibleConfig.baseUrl})`);
+    } catch (error: any) {
+      this.markUnavailable(id, 'initialization_failed', `${displayName} failed to initialize: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  // Every registered provider is wrapped in its own circuit breaker
+  private setProvider(provider: ILLMProvider): void {
+    this.providers.set(provider.id, new CircuitBreakerProvider(provider, new CircuitBreaker(config.circuitBreaker)));
+  }
+
+  private isEnabled(providerId: string): boolean {
+    return !config.enabledProviders || config.enabledProviders.includes(providerId);
+  }
+
+  private getConfiguredApiKey(providerId: string): string {
+    const compatibleConfig = config.openAICompatibleProviders.find(p => p.id === providerId);
+    if (compatibleConfig) {
+      return compatibleConfig.apiKey || '';
+    }
+
+    const credentials = config.llmProviders[providerId as LLMProviderType];
+    return credentials && 'apiKey' in credentials ? credentials.apiKey : '';
+  }
+
+  private getModelOverrides(providerId: string): string[] {
+    const compatibleConfig = config.openAICompatibleProviders.find(p => p.id === providerId);
+    return compatibleConfig ? compatibleConfig.models : config.models.overrides[providerId] || [];
+  }
+
+  private getSupportedModels(provider: ILLMProvider): string[] {
+    return this.modelCatalog
+      .getCachedModels(provider, this.getModelOverrides(provider.id))
+      .map(model => model.id);
+  }
+
+  private markUnavailable(providerId: string, reason: ProviderUnavailableReason, message: string): void {
+    this.providers.delete(providerId);
+    this.unavailable.set(providerId, { reason, message });
+    console.log(`${providerId} provider is unavailable: ${message}`);
+  }
+
+  /**
+   * Probe every registered provider with its configured credentials.
+   * Providers that fail the probe are unregistered and reported as health_check_failed.
+   */
+  async probeProviders(): Promise<void> {
+    const probes = Array.from(this.providers.entries()).map(async ([providerId, provider]) => {
+      const apiKey = this.getConfiguredApiKey(providerId);
+
+      let isHealthy = false;
+      try {
+        isHealthy = await provider.validateApiKey(apiKey);
+      } catch (error) {
+        isHealthy = false;
+      }
+
+      if (!isHealthy) {
+        this.markUnavailable(providerId, 'health_check_failed', `${provider.displayName} did not respond to the startup health probe`);
+      }
+    });
+
+    await Promise.all(probes);
+  }
+
+  /**
+   * Discover the models of every registered provider so provider listings show live model lists
+   */
+  async refreshModels(): Promise<void> {
+    await Promise.all(
+      Array.from(this.providers.values()).map(provider => this.getModels(provider.id))
+    );
+  }
+
+  async getModels(providerId: string): Promise<ModelInfo[] | null> {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      return null;
     }
 
-    // TODO: Add Google and Ollama providers
+    return this.modelCatalog.getModels(provider, this.getModelOverrides(providerId));
   }
 
   getProvider(providerId: string): ILLMProvider | null {
@@ -51,11 +194,13 @@ export class LLMProviderFactory {
     const availableProviders: LLMProvider[] = [];
 
     for (const [providerId, provider] of this.providers) {
-      const config = PROVIDER_CONFIGS[providerId as LLMProviderType];
+      const config = this.providerConfigs.get(providerId);
       if (config) {
         availableProviders.push({
           ...config,
+          supportedModels: this.getSupportedModels(provider),
           isAvailable: true,
+          health: provider.breaker.getSnapshot(),
         });
       }
     }
@@ -64,10 +209,19 @@ export class LLMProviderFactory {
   }
 
   getAllProviderConfigs(): LLMProvider[] {
-    return Object.values(PROVIDER_CONFIGS).map(config => ({
-      ...config,
-      isAvailable: this.providers.has(config.id),
-    }));
+    return Array.from(this.providerConfigs.values()).map(config => {
+      const provider = this.providers.get(config.id);
+      const unavailable = this.unavailable.get(config.id);
+
+      return {
+        ...config,
+        supportedModels: provider ? this.getSupportedModels(provider) : config.supportedModels,
+        isAvailable: !!provider,
+        unavailableReason: provider ? undefined : unavailable?.reason,
+        unavailableMessage: provider ? undefined : unavailable?.message,
+        health: provider?.breaker.getSnapshot(),
+      };
+    });
   }
 
   async validateProviderApiKey(providerId: string, apiKey: string): Promise<boolean> {
@@ -105,12 +259,32 @@ export class LLMProviderFactory {
     return Array.from(this.providers.keys());
   }
 
+  getHealth(providerId: string): ProviderHealth | null {
+    return this.providers.get(providerId)?.breaker.getSnapshot() || null;
+  }
+
+  getUnavailability(providerId: string): ProviderUnavailability | null {
+    if (this.providers.has(providerId)) {
+      return null;
+    }
+    return this.unavailable.get(providerId) || null;
+  }
+
   registerProvider(provider: ILLMProvider): void {
-    this.providers.set(provider.id, provider);
+    this.setProvider(provider);
+    this.modelCatalog.invalidate(provider.id);
+    this.unavailable.delete(provider.id);
   }
 
+  // Removed providers are reported as disabled, like providers left out of ENABLED_PROVIDERS
   removeProvider(providerId: string): boolean {
-    return this.providers.delete(providerId);
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      return false;
+    }
+
+    this.markUnavailable(providerId, 'disabled', `${provider.displayName} was removed`);
+    return true;
   }
 }
 
@@ -0,0 +1,328 @@
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  RequestOptions,
+  EnhancedGenerateContentResponse,
+  UsageMetadata,
+} from '@google/generative-ai';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import axios from 'axios';
+import { Question, Answer, GenerationOptions, RefinementOptions, LLMProviderType, ModelInfo } from '../types';
+import config, { PROVIDER_CONFIGS } from '../config';
+
+export class GoogleProvider extends BaseLLMProvider {
+  readonly id = 'google';
+  readonly name = 'google';
+  readonly displayName = 'Google AI';
+  readonly supportedModels = PROVIDER_CONFIGS[LLMProviderType.GOOGLE].supportedModels;
+
+  private client: GoogleGenerativeAI | null = null;
+  private requestOptions: RequestOptions = {};
+
+  constructor() {
+    super();
+    this.initializeClient();
+  }
+
+  private initializeClient() {
+    this.requestOptions = this.buildRequestOptions(config.llmProviders.google?.baseUrl);
+    if (config.llmProviders.google?.apiKey) {
+      this.client = new GoogleGenerativeAI(config.llmProviders.google.apiKey);
+    }
+  }
+
+  // The SDK expects the host and the API version separately, while GOOGLE_BASE_URL
+  // carries both (e.g. https://generativelanguage.googleapis.com/v1beta)
+  private buildRequestOptions(baseUrl?: string): RequestOptions {
+    if (!baseUrl) {
+      return {};
+    }
+
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    const versionMatch = trimmed.match(/^(.*)\/(v\d+[a-z0-9]*)$/i);
+    if (versionMatch) {
+      return { baseUrl: versionMatch[1], apiVersion: versionMatch[2] };
+    }
+
+    return { baseUrl: trimmed };
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      const testClient = new GoogleGenerativeAI(apiKey);
+      const model = testClient.getGenerativeModel(
+        { model: 'gemini-1.5-flash', generationConfig: { maxOutputTokens: 10 } },
+        this.requestOptions
+      );
+
+      await model.generateContent('Hello');
+      return true;
+    } catch (error) {
+      console.error('Google API key validation failed:', error);
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.client) {
+      throw new Error('Google client not initialized. Please check your API key.');
+    }
+
+    const baseUrl = config.llmProviders.google?.baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
+    const response = await this.withRetry('model listing', () => axios.get(`${baseUrl}/models`, {
+      params: { key: this.client!.apiKey, pageSize: 100 },
+    }));
+
+    return (response.data?.models || [])
+      .filter((model: any) => model.supportedGenerationMethods?.includes('generateContent'))
+      .map((model: any) => ({
+        id: model.name.replace(/^models\//, ''),
+        displayName: model.displayName,
+        contextWindow: model.inputTokenLimit,
+        maxOutputTokens: model.outputTokenLimit,
+        source: 'discovered' as const,
+      }));
+  }
+
+  async generateQuestions(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<Question[]> {
+    if (!this.client) {
+      throw new Error('Google client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gemini-1.5-pro';
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const generativeModel = this.client.getGenerativeModel(
+        {
+          model,
+          systemInstruction: this.buildSystemPrompt('generation', model, options),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: 2000,
+            responseMimeType: 'application/json',
+          },
+        },
+        this.requestOptions
+      );
+
+      const result = await this.withRetry('question generation', () => generativeModel.generateContent(
+        this.buildGenerationUserMessage(prompt, maxQuestions, options)
+      ));
+
+      this.reportUsage(options, 'generation', model, result.response.usageMetadata?.promptTokenCount, result.response.usageMetadata?.candidatesTokenCount);
+
+      const content = result.response.text();
+      if (!content) {
+        throw new Error('No content received from Google');
+      }
+
+      const questions = await this.parseQuestionsWithRepair(
+        content,
+        this.requestQuestionRepair(generativeModel, model, prompt, maxQuestions, options),
+        options
+      );
+      if (questions.length === 0) {
+        throw new Error('Google returned an invalid response format. Unable to parse questions from the response.');
+      }
+
+      return questions.slice(0, maxQuestions);
+    } catch (error: any) {
+      console.error('Google question generation failed:', error);
+
+      // Enhance error with more specific information
+      if (error.status === 401 || error.status === 403 || (error.status === 400 && error.message?.includes('API key'))) {
+        throw this.providerError('Google API key is invalid or expired. Please check your API key configuration.', error);
+      } else if (error.status === 429) {
+        throw this.providerError('Google rate limit exceeded. Please wait a moment before trying again or upgrade your plan.', error);
+      } else if (error.status === 404) {
+        throw this.providerError(`Google model "${model}" is not available or accessible with your current plan.`, error);
+      } else if (error.cause?.code === 'ENOTFOUND' || error.cause?.code === 'ECONNREFUSED') {
+        throw this.providerError('Unable to connect to Google. Please check your internet connection.', error);
+      } else if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      } else {
+        throw this.providerError(`Google API error: ${error.message || 'Unknown error occurred'}`, error);
+      }
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    if (!this.client) {
+      throw new Error('Google client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gemini-1.5-pro';
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const generativeModel = this.client.getGenerativeModel(
+        {
+          model,
+          systemInstruction: this.buildSystemPrompt('generation', model, options),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: 2000,
+            responseMimeType: 'application/json',
+          },
+        },
+        this.requestOptions
+      );
+
+      const result = await this.withRetry('question generation', () => generativeModel.generateContentStream(
+        this.buildGenerationUserMessage(prompt, maxQuestions, options)
+      ));
+
+      yield* this.parseQuestionStream(
+        this.textChunks(result.stream, usage =>
+          this.reportUsage(options, 'generation', model, usage.promptTokenCount, usage.candidatesTokenCount)
+        ),
+        maxQuestions,
+        this.requestQuestionRepair(generativeModel, model, prompt, maxQuestions, options),
+        options
+      );
+    } catch (error: any) {
+      console.error('Google question generation stream failed:', error);
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      }
+      throw this.providerError(`Google API error: ${error.message || 'Unknown error occurred'}`, error);
+    }
+  }
+
+  private requestQuestionRepair(
+    generativeModel: GenerativeModel,
+    model: string,
+    prompt: string,
+    maxQuestions: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => {
+      const result = await this.withRetry('question repair', () => generativeModel.generateContent({
+        contents: [
+          { role: 'user', parts: [{ text: this.buildGenerationUserMessage(prompt, maxQuestions, options) }] },
+          { role: 'model', parts: [{ text: invalidOutput }] },
+          { role: 'user', parts: [{ text: this.buildRepairUserMessage(issues) }] },
+        ],
+      }));
+
+      this.reportUsage(options, 'repair', model, result.response.usageMetadata?.promptTokenCount, result.response.usageMetadata?.candidatesTokenCount);
+      return result.response.text();
+    };
+  }
+
+  /**
+   * Yield the text of each streamed chunk. Every chunk carries the usage so far; the last one
+   * seen is reported when the stream ends or the consumer stops reading.
+   */
+  private async *textChunks(
+    stream: AsyncIterable<EnhancedGenerateContentResponse>,
+    onUsage?: (usage: UsageMetadata) => void
+  ): AsyncGenerator<string> {
+    let usage: UsageMetadata | undefined;
+    try {
+      for await (const chunk of stream) {
+        usage = chunk.usageMetadata || usage;
+        const token = chunk.text();
+        if (token) {
+          yield token;
+        }
+      }
+    } finally {
+      if (usage) {
+        onUsage?.(usage);
+      }
+    }
+  }
+
+  async refinePrompt(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): Promise<string> {
+    if (!this.client) {
+      throw new Error('Google client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gemini-1.5-pro';
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const generativeModel = this.client.getGenerativeModel(
+        {
+          model,
+          systemInstruction: this.buildSystemPrompt('refinement', model, options),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: 2000,
+          },
+        },
+        this.requestOptions
+      );
+
+      const result = await this.withRetry('prompt refinement', () => generativeModel.generateContent(
+        this.buildRefinementUserMessage(originalPrompt, questions, answers, options)
+      ));
+
+      this.reportUsage(options, 'refinement', model, result.response.usageMetadata?.promptTokenCount, result.response.usageMetadata?.candidatesTokenCount);
+
+      const refinedPrompt = result.response.text();
+      if (!refinedPrompt) {
+        throw new Error('No content received from Google');
+      }
+
+      return refinedPrompt.trim();
+    } catch (error) {
+      console.error('Google prompt refinement failed:', error);
+      throw this.providerError('Failed to refine prompt using Google', error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    if (!this.client) {
+      throw new Error('Google client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gemini-1.5-pro';
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const generativeModel = this.client.getGenerativeModel(
+        {
+          model,
+          systemInstruction: this.buildSystemPrompt('refinement', model, options),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: 2000,
+          },
+        },
+        this.requestOptions
+      );
+
+      const result = await this.withRetry('prompt refinement', () => generativeModel.generateContentStream(
+        this.buildRefinementUserMessage(originalPrompt, questions, answers, options)
+      ));
+
+      yield* this.textChunks(result.stream, usage =>
+        this.reportUsage(options, 'refinement', model, usage.promptTokenCount, usage.candidatesTokenCount)
+      );
+    } catch (error) {
+      console.error('Google prompt refinement stream failed:', error);
+      throw this.providerError('Failed to refine prompt using Google', error);
+    }
+  }
+}
\ No newline at end of file
@@ -1,21 +1,14 @@
 import OpenAI from 'openai';
-import { BaseLLMProvider } from './base';
-import { Question, Answer, GenerationOptions, RefinementOptions } from '../types';
-import config from '../config';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import { chatCompletionTokens } from '../utils/streaming';
+import { Question, Answer, GenerationOptions, RefinementOptions, LLMProviderType, ModelInfo } from '../types';
+import config, { PROVIDER_CONFIGS } from '../config';
 
 export class GroqProvider extends BaseLLMProvider {
   readonly id = 'groq';
   readonly name = 'groq';
   readonly displayName = 'Groq';
-  readonly supportedModels = [
-    'llama-3.3-70b-versatile',
-    'meta-llama/llama-4-scout-17b-16e-instruct',
-    'moonshotai/kimi-k2-instruct',
-    'gemma2-9b-it',
-    'llama-3.1-8b-instant',
-    'llama-3.1-70b-versatile',
-    'mixtral-8x7b-32768',
-  ];
+  readonly supportedModels = PROVIDER_CONFIGS[LLMProviderType.GROQ].supportedModels;
 
   private client: OpenAI | null = null;
 
@@ -29,6 +22,7 @@ export class GroqProvider extends BaseLLMProvider {
       this.client = new OpenAI({
         apiKey: config.llmProviders.groq.apiKey,
         baseURL: config.llmProviders.groq.baseUrl || 'https://api.groq.com/openai/v1',
+        maxRetries: 0, // Retries are handled by withRetry
       });
     }
   }
@@ -48,78 +42,24 @@ export class GroqProvider extends BaseLLMProvider {
     }
   }
 
-  private parseGroqResponse(content: string): Question[] {
-    console.log('Parsing Groq response:', content.substring(0, 500) + '...');
-    
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-    let jsonString = jsonMatch ? jsonMatch[1] : content;
-    
-    // If no markdown block found, try to find JSON directly
-    if (!jsonMatch) {
-      // Look for JSON object in the response
-      const directJsonMatch = content.match(/\{[\s\S]*"questions"[\s\S]*\}/);
-      if (directJsonMatch) {
-        jsonString = directJsonMatch[0];
-      }
-    }
-
-    try {
-      const parsed = JSON.parse(jsonString);
-      if (parsed.questions && Array.isArray(parsed.questions)) {
-        console.log(`Successfully parsed ${parsed.questions.length} questions from Groq`);
-        return parsed.questions.map((q: any, index: number) => ({
-          id: this.generateQuestionId(),
-          text: q.text,
-          order: index,
-          category: q.category || 'clarity',
-          impact: q.impact || 'medium',
-          explanation: q.explanation,
-          options: q.options || ['Yes', 'Maybe', 'No'],
-          defaultOption: q.defaultOption || 1,
-        }));
-      } else {
-        console.warn('Groq response missing questions array:', parsed);
-      }
-    } catch (error) {
-      console.error('Failed to parse Groq JSON response:', error);
-      console.error('Attempted to parse:', jsonString.substring(0, 200));
-      
-      // Try fallback parsing for different formats
-      return this.tryFallbackParsing(content);
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.client) {
+      throw new Error('Groq client not initialized. Please check your API key.');
     }
-    
-    return [];
-  }
 
-  private tryFallbackParsing(content: string): Question[] {
-    console.log('Attempting fallback parsing for Groq response');
-    
-    // If JSON parsing fails, try to extract questions from a different format
-    // Some LLMs might return a list format instead of JSON
-    const questionPattern = /(?:Question \d+|Q\d*[:.)]|\d+\.)([^?]*\?)/gi;
-    const matches = content.match(questionPattern);
-    
-    if (matches && matches.length > 0) {
-      console.log(`Found ${matches.length} questions using fallback parsing`);
-      return matches.slice(0, 7).map((match, index) => ({
-        id: this.generateQuestionId(),
-        text: match.replace(/^(?:Question \d+|Q\d*[:.)]|\d+\.)/, '').trim(),
-        order: index,
-        category: 'clarity' as const,
-        impact: 'medium' as const,
-        explanation: 'Auto-generated question from Groq response',
-        options: ['Yes', 'Somewhat', 'No'],
-        defaultOption: 1,
+    const models = await this.withRetry('model listing', () => this.client!.models.list());
+    return models.data
+      // Groq reports context windows, marks retired models inactive and also lists speech and guard models
+      .filter((model: any) => model.active !== false && !/whisper|tts|guard/i.test(model.id))
+      .map((model: any) => ({
+        id: model.id,
+        ownedBy: model.owned_by,
+        contextWindow: model.context_window,
+        maxOutputTokens: model.max_completion_tokens,
+        source: 'discovered' as const,
       }));
-    }
-    
-    console.log('All parsing attempts failed, returning empty array');
-    return [];
   }
 
-
-
   async generateQuestions(
     prompt: string,
     options?: GenerationOptions
@@ -133,28 +73,36 @@ export class GroqProvider extends BaseLLMProvider {
     const temperature = options?.temperature || 0.7;
 
     try {
-      const response = await this.client.chat.completions.create({
+      const response = await this.withRetry('question generation', () => this.client!.chat.completions.create({
         model,
         messages: [
           {
             role: 'system',
-            content: this.buildSystemPrompt('generation'),
+            content: this.buildSystemPrompt('generation', model, options),
           },
           {
             role: 'user',
-            content: `Please generate ${maxQuestions} targeted questions with 3 options each to help refine this prompt:\n\n"${prompt}"\n\nRemember to focus on clarity, specificity, context, and constraints. Each question should have exactly 3 meaningful options with the middle option as the default.`,
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
           },
         ],
         temperature,
         max_tokens: 2000,
-      });
+        // JSON mode guarantees syntactically valid JSON; the question schema checks the rest
+        response_format: { type: 'json_object' },
+      }));
+
+      this.reportUsage(options, 'generation', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error('No content received from Groq');
       }
 
-      const questions = this.parseGroqResponse(content);
+      const questions = await this.parseQuestionsWithRepair(
+        content,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
       if (questions.length === 0) {
         throw new Error('Groq returned an invalid response format. Unable to parse questions from the response.');
       }
@@ -165,21 +113,106 @@ export class GroqProvider extends BaseLLMProvider {
       
       // Enhance error with more specific information
       if (error.response?.status === 401) {
-        throw new Error('Groq API key is invalid or expired. Please check your API key configuration.');
+        throw this.providerError('Groq API key is invalid or expired. Please check your API key configuration.', error);
       } else if (error.response?.status === 429) {
-        throw new Error('Groq rate limit exceeded. Please wait a moment before trying again or upgrade your plan.');
+        throw this.providerError('Groq rate limit exceeded. Please wait a moment before trying again or upgrade your plan.', error);
       } else if (error.response?.status === 404) {
-        throw new Error(`Groq model "${model}" is not available or accessible with your current plan.`);
+        throw this.providerError(`Groq model "${model}" is not available or accessible with your current plan.`, error);
       } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        throw new Error('Unable to connect to Groq. Please check your internet connection.');
+        throw this.providerError('Unable to connect to Groq. Please check your internet connection.', error);
       } else if (error.message?.includes('parse questions')) {
         throw error; // Re-throw parsing errors as-is
       } else {
-        throw new Error(`Groq API error: ${error.message || 'Unknown error occurred'}`);
+        throw this.providerError(`Groq API error: ${error.message || 'Unknown error occurred'}`, error);
       }
     }
   }
 
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    if (!this.client) {
+      throw new Error('Groq client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'llama-3.3-70b-versatile';
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const stream = await this.withRetry('question generation', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        // Streamed questions are validated one by one as they complete instead of using JSON mode
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* this.parseQuestionStream(
+        chatCompletionTokens(stream, usage => this.reportUsage(options, 'generation', model, usage.prompt_tokens, usage.completion_tokens)),
+        maxQuestions,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+    } catch (error: any) {
+      console.error('Groq question generation stream failed:', error);
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      }
+      throw this.providerError(`Groq API error: ${error.message || 'Unknown error occurred'}`, error);
+    }
+  }
+
+  private requestQuestionRepair(
+    prompt: string,
+    model: string,
+    maxQuestions: number,
+    temperature: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => {
+      const response = await this.withRetry('question repair', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+          {
+            role: 'assistant',
+            content: invalidOutput,
+          },
+          {
+            role: 'user',
+            content: this.buildRepairUserMessage(issues),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        response_format: { type: 'json_object' },
+      }));
+
+      this.reportUsage(options, 'repair', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+      return response.choices[0]?.message?.content || '';
+    };
+  }
+
   async refinePrompt(
     originalPrompt: string,
     questions: Question[],
@@ -194,23 +227,23 @@ export class GroqProvider extends BaseLLMProvider {
     const temperature = options?.temperature || 0.3;
 
     try {
-      const questionsAndAnswers = this.formatQuestionsForPrompt(questions, answers);
-
-      const response = await this.client.chat.completions.create({
+      const response = await this.withRetry('prompt refinement', () => this.client!.chat.completions.create({
         model,
         messages: [
           {
             role: 'system',
-            content: this.buildSystemPrompt('refinement'),
+            content: this.buildSystemPrompt('refinement', model, options),
           },
           {
             role: 'user',
-            content: `Original prompt: "${originalPrompt}"\n\nQuestions and answers:\n${questionsAndAnswers}\n\nPlease create a refined version of the original prompt based on these answers.`,
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
           },
         ],
         temperature,
-        max_tokens: 1000,
-      });
+        max_tokens: 2000,
+      }));
+
+      this.reportUsage(options, 'refinement', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
 
       const refinedPrompt = response.choices[0]?.message?.content;
       if (!refinedPrompt) {
@@ -220,7 +253,46 @@ export class GroqProvider extends BaseLLMProvider {
       return refinedPrompt.trim();
     } catch (error) {
       console.error('Groq prompt refinement failed:', error);
-      throw new Error('Failed to refine prompt using Groq');
+      throw this.providerError('Failed to refine prompt using Groq', error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    if (!this.client) {
+      throw new Error('Groq client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'llama-3.3-70b-versatile';
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const stream = await this.withRetry('prompt refinement', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* chatCompletionTokens(stream, usage => this.reportUsage(options, 'refinement', model, usage.prompt_tokens, usage.completion_tokens));
+    } catch (error) {
+      console.error('Groq prompt refinement stream failed:', error);
+      throw this.providerError('Failed to refine prompt using Groq', error);
     }
   }
 
@@ -272,6 +344,7 @@ export class GroqProvider extends BaseLLMProvider {
       id: this.generateQuestionId(),
       text: q.text,
       order: index,
+      type: 'single-choice' as const,
       category: q.category,
       impact: q.impact,
       explanation: q.explanation,
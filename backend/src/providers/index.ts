@@ -2,4 +2,7 @@ export { BaseLLMProvider } from './base';
 export { OpenAIProvider } from './openai';
 export { AnthropicProvider } from './anthropic';
 export { GroqProvider } from './groq';
+export { GoogleProvider } from './google';
+export { OllamaProvider } from './ollama';
+export { OpenAICompatibleProvider } from './openaiCompatible';
 export { LLMProviderFactory, llmProviderFactory } from './factory'; 
\ No newline at end of file
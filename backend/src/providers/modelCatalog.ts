@@ -0,0 +1,96 @@
+import { ILLMProvider, ModelInfo } from '../types';
+
+interface CacheEntry {
+  // null when discovery failed; the failure is cached briefly so a down endpoint is not hammered
+  models: ModelInfo[] | null;
+  expiresAt: number;
+}
+
+const FAILED_DISCOVERY_TTL_MS = 60 * 1000;
+
+/**
+ * Per-provider model lists discovered from the providers' models endpoints, cached with a TTL
+ * and merged with the configured override list
+ */
+export class ModelCatalog {
+  private cache: Map<string, CacheEntry> = new Map();
+  private pending: Map<string, Promise<ModelInfo[] | null>> = new Map();
+
+  constructor(private ttlMs: number) {}
+
+  /**
+   * Merged model list, refreshing the discovered part first if its cache entry has expired
+   */
+  async getModels(provider: ILLMProvider, overrides: string[]): Promise<ModelInfo[]> {
+    const discovered = await this.getDiscoveredModels(provider);
+    return this.merge(provider, discovered, overrides);
+  }
+
+  /**
+   * Merged model list from whatever is cached right now, without calling the provider
+   */
+  getCachedModels(provider: ILLMProvider, overrides: string[]): ModelInfo[] {
+    const entry = this.cache.get(provider.id);
+    return this.merge(provider, entry?.models || null, overrides);
+  }
+
+  invalidate(providerId: string): void {
+    this.cache.delete(providerId);
+  }
+
+  private async getDiscoveredModels(provider: ILLMProvider): Promise<ModelInfo[] | null> {
+    const entry = this.cache.get(provider.id);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.models;
+    }
+
+    // Concurrent requests for the same provider share one fetch
+    let request = this.pending.get(provider.id);
+    if (!request) {
+      request = this.discover(provider, entry?.models || null);
+      this.pending.set(provider.id, request);
+    }
+
+    try {
+      return await request;
+    } finally {
+      this.pending.delete(provider.id);
+    }
+  }
+
+  private async discover(provider: ILLMProvider, previous: ModelInfo[] | null): Promise<ModelInfo[] | null> {
+    try {
+      const models = await provider.listModels();
+      if (models.length === 0) {
+        throw new Error('the models endpoint returned no chat models');
+      }
+
+      this.cache.set(provider.id, { models, expiresAt: Date.now() + this.ttlMs });
+      console.log(`Discovered ${models.length} models for ${provider.id}`);
+      return models;
+    } catch (error: any) {
+      console.warn(`Model discovery failed for ${provider.id}: ${error.message || 'Unknown error'}`);
+      // Keep serving the last good list rather than falling back to the built-in one
+      this.cache.set(provider.id, {
+        models: previous,
+        expiresAt: Date.now() + Math.min(this.ttlMs, FAILED_DISCOVERY_TTL_MS),
+      });
+      return previous;
+    }
+  }
+
+  /**
+   * Override models come first (keeping discovered metadata when the provider lists them too),
+   * followed by the discovered models, or the provider's built-in list when discovery is unavailable
+   */
+  private merge(provider: ILLMProvider, discovered: ModelInfo[] | null, overrides: string[]): ModelInfo[] {
+    const available: ModelInfo[] = discovered
+      || provider.supportedModels.map(id => ({ id, source: 'default' as const }));
+    const byId = new Map(available.map(model => [model.id, model]));
+
+    const pinned = overrides.map(id => byId.get(id) || { id, source: 'config' as const });
+    const rest = available.filter(model => !overrides.includes(model.id));
+
+    return [...pinned, ...rest];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,378 @@
+import axios from 'axios';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import { Question, Answer, GenerationOptions, RefinementOptions, LLMProviderType, ModelInfo, ProviderCallUsage } from '../types';
+import config, { PROVIDER_CONFIGS } from '../config';
+import { errorLogger } from '../utils/errorHandler';
+import { readJsonLines } from '../utils/streaming';
+
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OllamaChatChunk {
+  message?: { content?: string };
+  done: boolean;
+  error?: string;
+  // Token counts, sent with the final (done) chunk
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaChatOptions {
+  temperature: number;
+  maxTokens: number;
+  json?: boolean;
+  onUsage?: (inputTokens?: number, outputTokens?: number) => void;
+}
+
+export class OllamaProvider extends BaseLLMProvider {
+  readonly id = 'ollama';
+  readonly name = 'ollama';
+  readonly displayName = 'Ollama (Local)';
+  // Replaced by the models actually pulled on the local server once /api/tags answers
+  supportedModels: string[] = [...PROVIDER_CONFIGS[LLMProviderType.OLLAMA].supportedModels];
+
+  private baseUrl: string | null = null;
+
+  constructor() {
+    super();
+    this.initializeClient();
+  }
+
+  private initializeClient() {
+    this.baseUrl = config.llmProviders.ollama?.baseUrl?.replace(/\/+$/, '') || null;
+    if (this.baseUrl) {
+      this.loadInstalledModels();
+    }
+  }
+
+  private async loadInstalledModels(): Promise<void> {
+    try {
+      const models = await this.fetchInstalledModels(this.baseUrl!);
+      if (models.length > 0) {
+        this.supportedModels = models;
+        errorLogger.info('Ollama models discovered', { models });
+      } else {
+        errorLogger.warn('Ollama server has no models installed. Run `ollama pull <model>` first.');
+      }
+    } catch (error: any) {
+      errorLogger.warn('Unable to list Ollama models, keeping configured defaults', {
+        baseUrl: this.baseUrl,
+        error: error.message,
+      });
+    }
+  }
+
+  private async fetchInstalledModels(baseUrl: string): Promise<string[]> {
+    const response = await axios.get(`${baseUrl}/api/tags`, { timeout: 5000 });
+    const models: Array<{ name?: string; model?: string }> = response.data?.models || [];
+    return models
+      .map(m => m.name || m.model)
+      .filter((name): name is string => !!name);
+  }
+
+  private async chat(
+    model: string,
+    messages: OllamaChatMessage[],
+    options: OllamaChatOptions
+  ): Promise<string> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama base URL is not configured.');
+    }
+
+    const response = await this.withRetry('chat', () => axios.post(`${this.baseUrl}/api/chat`, {
+      model,
+      messages,
+      stream: false,
+      ...(options.json ? { format: 'json' } : {}),
+      options: {
+        temperature: options.temperature,
+        num_predict: options.maxTokens,
+      },
+    }));
+
+    options.onUsage?.(response.data?.prompt_eval_count, response.data?.eval_count);
+    return response.data?.message?.content || '';
+  }
+
+  private async *chatStream(
+    model: string,
+    messages: OllamaChatMessage[],
+    options: OllamaChatOptions
+  ): AsyncGenerator<string> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama base URL is not configured.');
+    }
+
+    const response = await this.withRetry('chat stream', () => axios.post(
+      `${this.baseUrl}/api/chat`,
+      {
+        model,
+        messages,
+        stream: true,
+        ...(options.json ? { format: 'json' } : {}),
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxTokens,
+        },
+      },
+      { responseType: 'stream' }
+    ));
+
+    for await (const chunk of readJsonLines<OllamaChatChunk>(response.data)) {
+      if (chunk.error) {
+        throw new Error(chunk.error);
+      }
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) {
+        options.onUsage?.(chunk.prompt_eval_count, chunk.eval_count);
+        return;
+      }
+    }
+  }
+
+  private usageReporter(
+    options: GenerationOptions | RefinementOptions | undefined,
+    operation: ProviderCallUsage['operation'],
+    model: string
+  ): OllamaChatOptions['onUsage'] {
+    return (inputTokens, outputTokens) => this.reportUsage(options, operation, model, inputTokens, outputTokens);
+  }
+
+  private getDefaultModel(): string {
+    return this.supportedModels[0] || PROVIDER_CONFIGS[LLMProviderType.OLLAMA].defaultModel || 'llama3';
+  }
+
+  // Ollama runs without credentials, so "validating" means the server answers
+  async validateApiKey(_apiKey: string): Promise<boolean> {
+    if (!this.baseUrl) {
+      return false;
+    }
+
+    try {
+      await this.fetchInstalledModels(this.baseUrl);
+      return true;
+    } catch (error: any) {
+      errorLogger.error('Ollama server is not reachable', error, { baseUrl: this.baseUrl });
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama base URL is not configured.');
+    }
+
+    const models = await this.fetchInstalledModels(this.baseUrl);
+    return models.map(id => ({ id, ownedBy: 'local', source: 'discovered' as const }));
+  }
+
+  async generateQuestions(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<Question[]> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama client not initialized. Please check OLLAMA_BASE_URL.');
+    }
+
+    const model = options?.model || this.getDefaultModel();
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const content = await this.chat(
+        model,
+        [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        { temperature, maxTokens: 2000, json: true, onUsage: this.usageReporter(options, 'generation', model) }
+      );
+
+      if (!content) {
+        throw new Error('No content received from Ollama');
+      }
+
+      const questions = await this.parseQuestionsWithRepair(
+        content,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+      if (questions.length === 0) {
+        throw new Error('Ollama returned an invalid response format. Unable to parse questions from the response.');
+      }
+
+      return questions.slice(0, maxQuestions);
+    } catch (error: any) {
+      errorLogger.error('Question generation failed', error, { provider: 'ollama', model });
+
+      // Enhance error with more specific information
+      if (error.response?.status === 404) {
+        throw this.providerError(`Ollama model "${model}" is not installed. Run \`ollama pull ${model}\` on the Ollama host.`, error);
+      } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+        throw this.providerError(`Unable to connect to Ollama at ${this.baseUrl}. Please check that the Ollama server is running.`, error);
+      } else if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      } else {
+        throw this.providerError(`Ollama API error: ${error.response?.data?.error || error.message || 'Unknown error occurred'}`, error);
+      }
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama client not initialized. Please check OLLAMA_BASE_URL.');
+    }
+
+    const model = options?.model || this.getDefaultModel();
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const tokens = this.chatStream(
+        model,
+        [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        { temperature, maxTokens: 2000, json: true, onUsage: this.usageReporter(options, 'generation', model) }
+      );
+
+      yield* this.parseQuestionStream(
+        tokens,
+        maxQuestions,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+    } catch (error: any) {
+      errorLogger.error('Question generation stream failed', error, { provider: 'ollama', model });
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      }
+      throw this.providerError(`Ollama API error: ${error.message || 'Unknown error occurred'}`, error);
+    }
+  }
+
+  private requestQuestionRepair(
+    prompt: string,
+    model: string,
+    maxQuestions: number,
+    temperature: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => this.chat(
+      model,
+      [
+        {
+          role: 'system',
+          content: this.buildSystemPrompt('generation', model, options),
+        },
+        {
+          role: 'user',
+          content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+        },
+        {
+          role: 'assistant',
+          content: invalidOutput,
+        },
+        {
+          role: 'user',
+          content: this.buildRepairUserMessage(issues),
+        },
+      ],
+      { temperature, maxTokens: 2000, json: true, onUsage: this.usageReporter(options, 'repair', model) }
+    );
+  }
+
+  async refinePrompt(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): Promise<string> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama client not initialized. Please check OLLAMA_BASE_URL.');
+    }
+
+    const model = options?.model || this.getDefaultModel();
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const refinedPrompt = await this.chat(
+        model,
+        [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        { temperature, maxTokens: 2000, onUsage: this.usageReporter(options, 'refinement', model) }
+      );
+
+      if (!refinedPrompt) {
+        throw new Error('No content received from Ollama');
+      }
+
+      return refinedPrompt.trim();
+    } catch (error) {
+      errorLogger.error('Prompt refinement failed', error, { provider: 'ollama', model });
+      throw this.providerError('Failed to refine prompt using Ollama', error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    if (!this.baseUrl) {
+      throw new Error('Ollama client not initialized. Please check OLLAMA_BASE_URL.');
+    }
+
+    const model = options?.model || this.getDefaultModel();
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      yield* this.chatStream(
+        model,
+        [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        { temperature, maxTokens: 2000, onUsage: this.usageReporter(options, 'refinement', model) }
+      );
+    } catch (error) {
+      errorLogger.error('Prompt refinement stream failed', error, { provider: 'ollama', model });
+      throw this.providerError('Failed to refine prompt using Ollama', error);
+    }
+  }
+}
\ No newline at end of file
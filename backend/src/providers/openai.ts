@@ -1,13 +1,15 @@
 import OpenAI from 'openai';
-import { BaseLLMProvider } from './base';
-import { Question, Answer, GenerationOptions, RefinementOptions } from '../types';
-import config from '../config';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import { chatCompletionTokens } from '../utils/streaming';
+import { createQuestionsJsonSchema } from '../utils/questionSchema';
+import { Question, Answer, GenerationOptions, RefinementOptions, LLMProviderType, ModelInfo } from '../types';
+import config, { PROVIDER_CONFIGS } from '../config';
 
 export class OpenAIProvider extends BaseLLMProvider {
   readonly id = 'openai';
   readonly name = 'openai';
   readonly displayName = 'OpenAI';
-  readonly supportedModels = ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+  readonly supportedModels = PROVIDER_CONFIGS[LLMProviderType.OPENAI].supportedModels;
 
   private client: OpenAI | null = null;
 
@@ -21,6 +23,7 @@ export class OpenAIProvider extends BaseLLMProvider {
       this.client = new OpenAI({
         apiKey: config.llmProviders.openai.apiKey,
         baseURL: config.llmProviders.openai.baseUrl,
+        maxRetries: 0, // Retries are handled by withRetry
       });
     }
   }
@@ -40,6 +43,22 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized. Please check your API key.');
+    }
+
+    const models = await this.withRetry('model listing', () => this.client!.models.list());
+    return models.data
+      // The endpoint also lists embedding, audio and image models
+      .filter(model => /^(gpt-|o\d|chatgpt-)/.test(model.id))
+      .map(model => ({
+        id: model.id,
+        ownedBy: model.owned_by,
+        source: 'discovered' as const,
+      }));
+  }
+
   async generateQuestions(
     prompt: string,
     options?: GenerationOptions
@@ -53,28 +72,35 @@ export class OpenAIProvider extends BaseLLMProvider {
     const temperature = options?.temperature || 0.7;
 
     try {
-      const response = await this.client.chat.completions.create({
+      const response = await this.withRetry('question generation', () => this.client!.chat.completions.create({
         model,
         messages: [
           {
             role: 'system',
-            content: this.buildSystemPrompt('generation'),
+            content: this.buildSystemPrompt('generation', model, options),
           },
           {
             role: 'user',
-            content: `Please generate ${maxQuestions} targeted questions with 3 options each to help refine this prompt:\n\n"${prompt}"\n\nRemember to focus on clarity, specificity, context, and constraints. Each question should have exactly 3 meaningful options with the middle option as the default.`,
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
           },
         ],
         temperature,
         max_tokens: 2000,
-      });
+        response_format: this.getQuestionsResponseFormat(model, options),
+      }));
+
+      this.reportUsage(options, 'generation', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error('No content received from OpenAI');
       }
 
-      const questions = this.parseQuestionsFromResponse(content);
+      const questions = await this.parseQuestionsWithRepair(
+        content,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
       if (questions.length === 0) {
         throw new Error('OpenAI returned an invalid response format. Unable to parse questions from the response.');
       }
@@ -85,19 +111,128 @@ export class OpenAIProvider extends BaseLLMProvider {
       
       // Enhance error with more specific information
       if (error.response?.status === 401) {
-        throw new Error('OpenAI API key is invalid or expired. Please check your API key configuration.');
+        throw this.providerError('OpenAI API key is invalid or expired. Please check your API key configuration.', error);
       } else if (error.response?.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please wait a moment before trying again or upgrade your plan.');
+        throw this.providerError('OpenAI rate limit exceeded. Please wait a moment before trying again or upgrade your plan.', error);
       } else if (error.response?.status === 404) {
-        throw new Error(`OpenAI model "${model}" is not available or accessible with your current plan.`);
+        throw this.providerError(`OpenAI model "${model}" is not available or accessible with your current plan.`, error);
       } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        throw new Error('Unable to connect to OpenAI. Please check your internet connection.');
+        throw this.providerError('Unable to connect to OpenAI. Please check your internet connection.', error);
       } else if (error.message?.includes('parse questions')) {
         throw error; // Re-throw parsing errors as-is
       } else {
-        throw new Error(`OpenAI API error: ${error.message || 'Unknown error occurred'}`);
+        throw this.providerError(`OpenAI API error: ${error.message || 'Unknown error occurred'}`, error);
+      }
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gpt-4';
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const stream = await this.withRetry('question generation', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        response_format: this.getQuestionsResponseFormat(model, options),
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* this.parseQuestionStream(
+        chatCompletionTokens(stream, usage => this.reportUsage(options, 'generation', model, usage.prompt_tokens, usage.completion_tokens)),
+        maxQuestions,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+    } catch (error: any) {
+      console.error('OpenAI question generation stream failed:', error);
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
       }
+      throw this.providerError(`OpenAI API error: ${error.message || 'Unknown error occurred'}`, error);
+    }
+  }
+
+  /**
+   * Structured outputs where the model supports them, plain JSON mode on older turbo models;
+   * the original gpt-4 supports neither and relies on the prompt alone
+   */
+  private getQuestionsResponseFormat(
+    model: string,
+    options?: GenerationOptions
+  ): OpenAI.ChatCompletionCreateParams['response_format'] {
+    if (/^(gpt-4o|gpt-4\.1|gpt-5|o\d|chatgpt-4o)/.test(model)) {
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: 'refinement_questions',
+          schema: createQuestionsJsonSchema(this.getQuestionCategoryIds(options)),
+          strict: true,
+        },
+      };
+    }
+    if (/^(gpt-4-turbo|gpt-4-\d{4}|gpt-3\.5-turbo)/.test(model)) {
+      return { type: 'json_object' };
     }
+    return undefined;
+  }
+
+  private requestQuestionRepair(
+    prompt: string,
+    model: string,
+    maxQuestions: number,
+    temperature: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => {
+      const response = await this.withRetry('question repair', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+          {
+            role: 'assistant',
+            content: invalidOutput,
+          },
+          {
+            role: 'user',
+            content: this.buildRepairUserMessage(issues),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        response_format: this.getQuestionsResponseFormat(model, options),
+      }));
+
+      this.reportUsage(options, 'repair', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+      return response.choices[0]?.message?.content || '';
+    };
   }
 
   async refinePrompt(
@@ -114,23 +249,23 @@ export class OpenAIProvider extends BaseLLMProvider {
     const temperature = options?.temperature || 0.3;
 
     try {
-      const questionsAndAnswers = this.formatQuestionsForPrompt(questions, answers);
-
-      const response = await this.client.chat.completions.create({
+      const response = await this.withRetry('prompt refinement', () => this.client!.chat.completions.create({
         model,
         messages: [
           {
             role: 'system',
-            content: this.buildSystemPrompt('refinement'),
+            content: this.buildSystemPrompt('refinement', model, options),
           },
           {
             role: 'user',
-            content: `Original prompt: "${originalPrompt}"\n\nQuestions and answers:\n${questionsAndAnswers}\n\nPlease create a refined version of the original prompt based on these answers.`,
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
           },
         ],
         temperature,
-        max_tokens: 1000,
-      });
+        max_tokens: 2000,
+      }));
+
+      this.reportUsage(options, 'refinement', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
 
       const refinedPrompt = response.choices[0]?.message?.content;
       if (!refinedPrompt) {
@@ -140,7 +275,46 @@ export class OpenAIProvider extends BaseLLMProvider {
       return refinedPrompt.trim();
     } catch (error) {
       console.error('OpenAI prompt refinement failed:', error);
-      throw new Error('Failed to refine prompt using OpenAI');
+      throw this.providerError('Failed to refine prompt using OpenAI', error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized. Please check your API key.');
+    }
+
+    const model = options?.model || 'gpt-4';
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const stream = await this.withRetry('prompt refinement', () => this.client!.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* chatCompletionTokens(stream, usage => this.reportUsage(options, 'refinement', model, usage.prompt_tokens, usage.completion_tokens));
+    } catch (error) {
+      console.error('OpenAI prompt refinement stream failed:', error);
+      throw this.providerError('Failed to refine prompt using OpenAI', error);
     }
   }
 
@@ -192,6 +366,7 @@ export class OpenAIProvider extends BaseLLMProvider {
       id: this.generateQuestionId(),
       text: q.text,
       order: index,
+      type: 'single-choice' as const,
       category: q.category,
       impact: q.impact,
       explanation: q.explanation,
@@ -0,0 +1,289 @@
+import OpenAI from 'openai';
+import { BaseLLMProvider, QuestionRepairRequest } from './base';
+import { chatCompletionTokens } from '../utils/streaming';
+import { Question, Answer, GenerationOptions, RefinementOptions, OpenAICompatibleProviderConfig, RetryPolicy, ModelInfo } from '../types';
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API
+ * (vLLM, LM Studio, LiteLLM, Together, internal gateways, ...).
+ * One instance is created per entry in OPENAI_COMPATIBLE_PROVIDERS.
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly displayName: string;
+  readonly supportedModels: string[];
+
+  private client: OpenAI;
+  private providerConfig: OpenAICompatibleProviderConfig;
+
+  constructor(providerConfig: OpenAICompatibleProviderConfig) {
+    super();
+    this.providerConfig = providerConfig;
+    this.id = providerConfig.id;
+    this.name = providerConfig.id;
+    this.displayName = providerConfig.displayName;
+    this.supportedModels = providerConfig.models;
+    this.client = this.createClient(providerConfig.apiKey);
+  }
+
+  private createClient(apiKey?: string): OpenAI {
+    return new OpenAI({
+      // Self-hosted servers usually ignore the key, but the SDK refuses an empty one
+      apiKey: apiKey || 'not-needed',
+      baseURL: this.providerConfig.baseUrl,
+      maxRetries: 0, // Retries are handled by withRetry
+    });
+  }
+
+  private getDefaultModel(): string {
+    return this.providerConfig.defaultModel || this.supportedModels[0];
+  }
+
+  protected getRetryPolicy(): RetryPolicy {
+    return {
+      ...super.getRetryPolicy(),
+      ...this.providerConfig.retry,
+    };
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      await this.createClient(apiKey).models.list();
+      return true;
+    } catch (error) {
+      console.error(`${this.displayName} API key validation failed:`, error);
+      return false;
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models = await this.withRetry('model listing', () => this.client.models.list());
+    return models.data.map((model: any) => ({
+      id: model.id,
+      ownedBy: model.owned_by,
+      // Servers disagree on the field name (OpenRouter, Groq-style gateways, vLLM)
+      contextWindow: model.context_length ?? model.context_window ?? model.max_model_len,
+      source: 'discovered' as const,
+    }));
+  }
+
+  async generateQuestions(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<Question[]> {
+    const model = options?.model || this.getDefaultModel();
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const response = await this.withRetry('question generation', () => this.client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        ...(this.providerConfig.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      }));
+
+      this.reportUsage(options, 'generation', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`No content received from ${this.displayName}`);
+      }
+
+      const questions = await this.parseQuestionsWithRepair(
+        content,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+      if (questions.length === 0) {
+        throw new Error(`${this.displayName} returned an invalid response format. Unable to parse questions from the response.`);
+      }
+
+      return questions.slice(0, maxQuestions);
+    } catch (error: any) {
+      console.error(`${this.displayName} question generation failed:`, error);
+
+      // Enhance error with more specific information
+      if (error.status === 401) {
+        throw this.providerError(`${this.displayName} API key is invalid or expired. Please check your API key configuration.`, error);
+      } else if (error.status === 429) {
+        throw this.providerError(`${this.displayName} rate limit exceeded. Please wait a moment before trying again.`, error);
+      } else if (error.status === 404) {
+        throw this.providerError(`${this.displayName} model "${model}" is not available on ${this.providerConfig.baseUrl}.`, error);
+      } else if (error.cause?.code === 'ENOTFOUND' || error.cause?.code === 'ECONNREFUSED') {
+        throw this.providerError(`Unable to connect to ${this.displayName} at ${this.providerConfig.baseUrl}.`, error);
+      } else if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      } else {
+        throw this.providerError(`${this.displayName} API error: ${error.message || 'Unknown error occurred'}`, error);
+      }
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<Question> {
+    const model = options?.model || this.getDefaultModel();
+    const maxQuestions = options?.maxQuestions || 7;
+    const temperature = options?.temperature || 0.7;
+
+    try {
+      const stream = await this.withRetry('question generation', () => this.client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        ...(this.providerConfig.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* this.parseQuestionStream(
+        chatCompletionTokens(stream, usage => this.reportUsage(options, 'generation', model, usage.prompt_tokens, usage.completion_tokens)),
+        maxQuestions,
+        this.requestQuestionRepair(prompt, model, maxQuestions, temperature, options),
+        options
+      );
+    } catch (error: any) {
+      console.error(`${this.displayName} question generation stream failed:`, error);
+      if (error.message?.includes('parse questions')) {
+        throw error; // Re-throw parsing errors as-is
+      }
+      throw this.providerError(`${this.displayName} API error: ${error.message || 'Unknown error occurred'}`, error);
+    }
+  }
+
+  private requestQuestionRepair(
+    prompt: string,
+    model: string,
+    maxQuestions: number,
+    temperature: number,
+    options?: GenerationOptions
+  ): QuestionRepairRequest {
+    return async (invalidOutput, issues) => {
+      const response = await this.withRetry('question repair', () => this.client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('generation', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildGenerationUserMessage(prompt, maxQuestions, options),
+          },
+          {
+            role: 'assistant',
+            content: invalidOutput,
+          },
+          {
+            role: 'user',
+            content: this.buildRepairUserMessage(issues),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        ...(this.providerConfig.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      }));
+
+      this.reportUsage(options, 'repair', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+      return response.choices[0]?.message?.content || '';
+    };
+  }
+
+  async refinePrompt(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): Promise<string> {
+    const model = options?.model || this.getDefaultModel();
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const response = await this.withRetry('prompt refinement', () => this.client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+      }));
+
+      this.reportUsage(options, 'refinement', model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+
+      const refinedPrompt = response.choices[0]?.message?.content;
+      if (!refinedPrompt) {
+        throw new Error(`No content received from ${this.displayName}`);
+      }
+
+      return refinedPrompt.trim();
+    } catch (error) {
+      console.error(`${this.displayName} prompt refinement failed:`, error);
+      throw this.providerError(`Failed to refine prompt using ${this.displayName}`, error);
+    }
+  }
+
+  async *refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncGenerator<string> {
+    const model = options?.model || this.getDefaultModel();
+    const temperature = options?.temperature || 0.3;
+
+    try {
+      const stream = await this.withRetry('prompt refinement', () => this.client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: this.buildSystemPrompt('refinement', model, options),
+          },
+          {
+            role: 'user',
+            content: this.buildRefinementUserMessage(originalPrompt, questions, answers, options),
+          },
+        ],
+        temperature,
+        max_tokens: 2000,
+        stream: true,
+        stream_options: { include_usage: true },
+      }));
+
+      yield* chatCompletionTokens(stream, usage => this.reportUsage(options, 'refinement', model, usage.prompt_tokens, usage.completion_tokens));
+    } catch (error) {
+      console.error(`${this.displayName} prompt refinement stream failed:`, error);
+      throw this.providerError(`Failed to refine prompt using ${this.displayName}`, error);
+    }
+  }
+}
\ No newline at end of file
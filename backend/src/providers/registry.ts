@@ -0,0 +1,21 @@
+import { ILLMProvider, LLMProviderType } from '../types';
+import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GoogleProvider } from './google';
+import { OllamaProvider } from './ollama';
+import { GroqProvider } from './groq';
+
+export type ProviderConstructor = new () => ILLMProvider;
+
+/**
+ * Provider classes keyed by provider type.
+ * The factory instantiates an entry only when its credentials exist in config.llmProviders
+ * and it passes the ENABLED_PROVIDERS allow-list.
+ */
+export const providerRegistry: Record<LLMProviderType, ProviderConstructor> = {
+  [LLMProviderType.OPENAI]: OpenAIProvider,
+  [LLMProviderType.ANTHROPIC]: AnthropicProvider,
+  [LLMProviderType.GOOGLE]: GoogleProvider,
+  [LLMProviderType.OLLAMA]: OllamaProvider,
+  [LLMProviderType.GROQ]: GroqProvider,
+};
\ No newline at end of file
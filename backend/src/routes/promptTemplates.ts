@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { promptTemplateService } from '../services/promptTemplateService';
+import { llmProviderFactory } from '../providers';
+import { getAllPromptConfigs, PROMPT_PLACEHOLDERS } from '../prompts';
+import {
+  validateListPromptTemplates,
+  validateResolvePrompt,
+  validatePromptTemplateId,
+  validateCreatePromptTemplate,
+  validateUpdatePromptTemplate,
+  validatePromptTemplateVersion,
+} from '../middleware/validation';
+import { requireAdminKey } from '../middleware/adminKey';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ApiResponse, PromptResolution, PromptTemplateDefaults, PromptTemplateType } from '../types';
+
+const router = Router();
+
+// Configured providers, available or not
+const assertKnownProvider = (providerId: string) => {
+  if (!llmProviderFactory.getAllProviderConfigs().some(provider => provider.id === providerId)) {
+    throw new AppError(`Unknown provider '${providerId}'`, 400, 'VALIDATION_ERROR');
+  }
+};
+
+// List custom templates, optionally only those of one type or provider
+router.get('/', validateListPromptTemplates, asyncHandler(async (req: Request, res: Response) => {
+  const response: ApiResponse = {
+    success: true,
+    data: promptTemplateService.listTemplates(req.body),
+    message: 'Prompt templates retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Placeholders templates can use, and the built-in prompts they replace
+router.get('/defaults', asyncHandler(async (req: Request, res: Response) => {
+  const response: ApiResponse<PromptTemplateDefaults> = {
+    success: true,
+    data: {
+      placeholders: PROMPT_PLACEHOLDERS,
+      builtIn: getAllPromptConfigs(),
+    },
+    message: 'Prompt template defaults retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Debug: which prompt a provider and model would be sent, and from which level it was resolved
+router.get('/resolve', validateResolvePrompt, asyncHandler(async (req: Request, res: Response) => {
+  const { providerId, model, type } = req.body;
+  assertKnownProvider(providerId);
+  const types: PromptTemplateType[] = type ? [type] : ['generation', 'refinement'];
+
+  const response: ApiResponse<PromptResolution[]> = {
+    success: true,
+    data: types.map(promptType => promptTemplateService.resolvePrompt(providerId, promptType, model || undefined)),
+    message: 'Prompt resolved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Get one template with its version history
+router.get('/:id', validatePromptTemplateId, asyncHandler(async (req: Request, res: Response) => {
+  const response: ApiResponse = {
+    success: true,
+    data: promptTemplateService.getTemplate(req.body.id),
+    message: 'Prompt template retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Create a template for a provider, or for one of its models
+router.post('/', requireAdminKey, validateCreatePromptTemplate, asyncHandler(async (req: Request, res: Response) => {
+  assertKnownProvider(req.body.providerId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: promptTemplateService.createTemplate(req.body),
+    message: 'Prompt template created successfully',
+  };
+
+  res.status(201).json(response);
+}));
+
+// Save new content as the template's next version
+router.put('/:id', requireAdminKey, validateUpdatePromptTemplate, asyncHandler(async (req: Request, res: Response) => {
+  const { id, content, note } = req.body;
+
+  const response: ApiResponse = {
+    success: true,
+    data: promptTemplateService.updateTemplate(id, { content, note }),
+    message: 'Prompt template updated successfully',
+  };
+
+  res.json(response);
+}));
+
+// Make an earlier version current again (recorded as a new version)
+router.post('/:id/versions/:version/restore', requireAdminKey, validatePromptTemplateVersion, asyncHandler(async (req: Request, res: Response) => {
+  const { id, version } = req.body;
+
+  const response: ApiResponse = {
+    success: true,
+    data: promptTemplateService.restoreVersion(id, version),
+    message: `Prompt template version ${version} restored successfully`,
+  };
+
+  res.json(response);
+}));
+
+// Delete a template; the built-in prompt applies again
+router.delete('/:id', requireAdminKey, validatePromptTemplateId, asyncHandler(async (req: Request, res: Response) => {
+  promptTemplateService.deleteTemplate(req.body.id);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Prompt template deleted successfully',
+  };
+
+  res.json(response);
+}));
+
+export default router;
\ No newline at end of file
@@ -4,11 +4,19 @@ import OpenAI from 'openai';
 import { promptRefinementService } from '../services/promptRefinementService';
 import { 
   validateCreateSession, 
+  validateAnswerQuestion,
   validateRefinePrompt, 
-  validateSessionId 
+  validateNextQuestion,
+  validateSessionId,
+  validateRevision,
+  validateRevisionDiff,
+  validateEditPrompt
 } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
+import { enforceQuota, getClientId } from '../middleware/quota';
+import { quotaService } from '../services/quotaService';
 import { ApiResponse } from '../types';
+import { openEventStream, writeServerSentEvent } from '../utils/streaming';
 
 const router = Router();
 import Anthropic from '@anthropic-ai/sdk';
@@ -16,14 +24,17 @@ import Anthropic from '@anthropic-ai/sdk';
 
 
 // Create a new refinement session
-router.post('/create-session', validateCreateSession, asyncHandler(async (req: Request, res: Response) => {
-  const { originalPrompt, llmProvider, model } = req.body;
+router.post('/create-session', validateCreateSession, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const { originalPrompt, llmProvider, model, language, tone, categories } = req.body;
 
   const result = await promptRefinementService.createSession({
     originalPrompt,
     llmProvider,
     model,
-  });
+    language,
+    tone,
+    categories,
+  }, res.locals.clientId);
 
   const response: ApiResponse = {
     success: true,
@@ -34,6 +45,49 @@ router.post('/create-session', validateCreateSession, asyncHandler(async (req: R
   res.status(201).json(response);
 }));
 
+// Create a session, streaming the session and then each generated question over Server-Sent Events
+router.post('/create-session/stream', validateCreateSession, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const { originalPrompt, llmProvider, model, language, tone, categories } = req.body;
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = !res.writableEnded;
+  });
+
+  openEventStream(res);
+
+  try {
+    for await (const event of promptRefinementService.createSessionStream({
+      originalPrompt,
+      llmProvider,
+      model,
+      language,
+      tone,
+      categories,
+    }, res.locals.clientId)) {
+      if (clientClosed) {
+        break; // Stops the provider stream as well
+      }
+
+      if (event.type === 'session') {
+        writeServerSentEvent(res, 'session', event.session);
+      } else if (event.type === 'question') {
+        writeServerSentEvent(res, 'question', event.question);
+      } else if (event.type === 'complete') {
+        writeServerSentEvent(res, 'complete', event.result);
+      }
+    }
+  } catch (error: any) {
+    console.error('Streaming session creation failed:', error);
+    writeServerSentEvent(res, 'error', {
+      message: error.message || 'Failed to create session',
+      code: error.code,
+    });
+  }
+
+  res.end();
+}));
+
 // Get session details
 router.get('/session/:sessionId', validateSessionId, asyncHandler(async (req: Request, res: Response) => {
   const { sessionId } = req.params;
@@ -58,7 +112,7 @@ router.get('/session/:sessionId', validateSessionId, asyncHandler(async (req: Re
 }));
 
 // Answer a question in a session
-router.post('/answer-question', asyncHandler(async (req: Request, res: Response) => {
+router.post('/answer-question', validateAnswerQuestion, asyncHandler(async (req: Request, res: Response) => {
   const { sessionId, questionId, response } = req.body;
 
   const answer = await promptRefinementService.answerQuestion(sessionId, questionId, response);
@@ -72,9 +126,22 @@ router.post('/answer-question', asyncHandler(async (req: Request, res: Response)
   res.json(apiResponse);
 }));
 
+// Generate the next question of a session from the answers so far (adaptive mode)
+router.post('/session/:sessionId/next-question', validateNextQuestion, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const result = await promptRefinementService.generateNextQuestion(req.body, res.locals.clientId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+    message: 'Next question generated successfully',
+  };
+
+  res.json(response);
+}));
+
 // Refine the prompt based on answers
-router.post('/refine', validateRefinePrompt, asyncHandler(async (req: Request, res: Response) => {
-  const result = await promptRefinementService.refinePrompt(req.body);
+router.post('/refine', validateRefinePrompt, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const result = await promptRefinementService.refinePrompt(req.body, res.locals.clientId);
 
   const response: ApiResponse = {
     success: true,
@@ -85,6 +152,112 @@ router.post('/refine', validateRefinePrompt, asyncHandler(async (req: Request, r
   res.json(response);
 }));
 
+// Refine the prompt, streaming tokens over Server-Sent Events as they arrive
+router.post('/refine/stream', validateRefinePrompt, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = !res.writableEnded;
+  });
+
+  openEventStream(res);
+
+  try {
+    for await (const event of promptRefinementService.refinePromptStream(req.body, res.locals.clientId)) {
+      if (clientClosed) {
+        break; // Stops the provider stream as well
+      }
+
+      if (event.type === 'token') {
+        writeServerSentEvent(res, 'token', { token: event.token });
+      } else if (event.type === 'complete') {
+        writeServerSentEvent(res, 'complete', event.result);
+      }
+    }
+  } catch (error: any) {
+    console.error('Streaming refinement failed:', error);
+    // Headers are already sent, so errors travel as an event instead of an HTTP status
+    writeServerSentEvent(res, 'error', {
+      message: error.message || 'Failed to refine prompt',
+      code: error.code,
+    });
+  }
+
+  res.end();
+}));
+
+// List the session's prompt revisions, oldest first
+router.get('/session/:sessionId/revisions', validateSessionId, asyncHandler(async (req: Request, res: Response) => {
+  const revisions = await promptRefinementService.getRevisions(req.body.sessionId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: revisions,
+    message: 'Revisions retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Word-level diff between two revisions (?from=1&to=2; version 0 is the original prompt)
+router.get('/session/:sessionId/revisions/diff', validateRevisionDiff, asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, from, to } = req.body;
+
+  const diff = await promptRefinementService.diffRevisions(sessionId, from, to);
+
+  const response: ApiResponse = {
+    success: true,
+    data: diff,
+    message: 'Revisions compared successfully',
+  };
+
+  res.json(response);
+}));
+
+// Get a single revision
+router.get('/session/:sessionId/revisions/:version', validateRevision, asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, version } = req.body;
+
+  const revision = await promptRefinementService.getRevision(sessionId, version);
+
+  const response: ApiResponse = {
+    success: true,
+    data: revision,
+    message: 'Revision retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
+// Save a hand-edited prompt as a new revision
+router.post('/session/:sessionId/revisions', validateEditPrompt, asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, prompt } = req.body;
+
+  const session = await promptRefinementService.editPrompt(sessionId, prompt);
+
+  const response: ApiResponse = {
+    success: true,
+    data: session,
+    message: 'Prompt saved successfully',
+  };
+
+  res.status(201).json(response);
+}));
+
+// Make an earlier revision's prompt current again, recorded as a new rollback revision
+router.post('/session/:sessionId/revisions/:version/restore', validateRevision, asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, version } = req.body;
+
+  const session = await promptRefinementService.restoreRevision(sessionId, version);
+
+  const response: ApiResponse = {
+    success: true,
+    data: session,
+    message: `Revision ${version} restored successfully`,
+  };
+
+  res.json(response);
+}));
+
 // Delete a session
 router.delete('/session/:sessionId', validateSessionId, asyncHandler(async (req: Request, res: Response) => {
   const { sessionId } = req.params;
@@ -112,6 +285,22 @@ router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
   res.json(response);
 }));
 
+// Get the calling client's usage against its configured quotas
+router.get('/quota', asyncHandler(async (req: Request, res: Response) => {
+  const clientId = getClientId(req);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      clientId,
+      quotas: quotaService.getStatus(clientId),
+    },
+    message: 'Quota retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
 // Test API endpoint - Direct API call to test providers
 router.post('/test-api', asyncHandler(async (req: Request, res: Response) => {
   const { provider = 'anthropic', model } = req.body;
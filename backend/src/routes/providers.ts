@@ -6,9 +6,9 @@ import { ApiResponse } from '../types';
 
 const router = Router();
 
-// Get all available providers
+// Get all providers, with the reason each unavailable one cannot be used
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
-  const providers = llmProviderFactory.getAvailableProviders();
+  const providers = llmProviderFactory.getAllProviderConfigs();
 
   const response: ApiResponse = {
     success: true,
@@ -67,10 +67,12 @@ router.get('/:providerId', asyncHandler(async (req: Request, res: Response) => {
   const provider = llmProviderFactory.getProvider(providerId);
   
   if (!provider) {
+    const unavailability = llmProviderFactory.getUnavailability(providerId);
     return res.status(404).json({
       success: false,
       error: 'Provider not found',
-      message: `Provider ${providerId} not found or not available`,
+      message: unavailability?.message || `Provider ${providerId} not found or not available`,
+      code: unavailability?.reason,
     });
   }
 
@@ -112,12 +114,22 @@ router.get('/:providerId/status', asyncHandler(async (req: Request, res: Respons
   const { providerId } = req.params;
 
   const isAvailable = llmProviderFactory.hasProvider(providerId);
+  const unavailability = llmProviderFactory.getUnavailability(providerId);
+  const health = llmProviderFactory.getHealth(providerId);
   
   const response: ApiResponse = {
     success: true,
     data: {
       providerId,
       isAvailable,
+      unavailableReason: unavailability?.reason,
+      unavailableMessage: unavailability?.message,
+      circuitState: health?.circuitState,
+      errorRate: health?.errorRate,
+      latencyP50Ms: health?.latencyP50Ms,
+      latencyP95Ms: health?.latencyP95Ms,
+      lastError: health?.lastError,
+      retryAt: health?.retryAt,
     },
     message: 'Provider status retrieved successfully',
   };
@@ -125,13 +137,13 @@ router.get('/:providerId/status', asyncHandler(async (req: Request, res: Respons
   res.json(response);
 }));
 
-// Get supported models for a provider
+// Get the models a provider offers (discovered from its models endpoint, cached, merged with <PROVIDER>_MODELS)
 router.get('/:providerId/models', asyncHandler(async (req: Request, res: Response) => {
   const { providerId } = req.params;
 
-  const provider = llmProviderFactory.getProvider(providerId);
+  const models = await llmProviderFactory.getModels(providerId);
   
-  if (!provider) {
+  if (!models) {
     return res.status(404).json({
       success: false,
       error: 'Provider not found',
@@ -143,7 +155,7 @@ router.get('/:providerId/models', asyncHandler(async (req: Request, res: Respons
     success: true,
     data: {
       providerId,
-      models: provider.supportedModels,
+      models,
     },
     message: 'Supported models retrieved successfully',
   };
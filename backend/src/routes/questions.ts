@@ -2,15 +2,32 @@ import { Router, Request, Response } from 'express';
 import { promptRefinementService } from '../services/promptRefinementService';
 import { validateGenerateQuestions } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
-import { ApiResponse } from '../types';
+import { enforceQuota } from '../middleware/quota';
+import { ApiResponse, Question, ProviderAttribution, QuestionCategory } from '../types';
+import config from '../config';
+import { openEventStream, writeServerSentEvent } from '../utils/streaming';
 
 const router = Router();
 
+// The question taxonomy: categories that can be selected when generating questions
+router.get('/categories', asyncHandler(async (req: Request, res: Response) => {
+  const response: ApiResponse<QuestionCategory[]> = {
+    success: true,
+    data: config.questionCategories,
+    message: 'Question categories retrieved successfully',
+  };
+
+  res.json(response);
+}));
+
 // Generate questions for a prompt
-router.post('/generate', validateGenerateQuestions, asyncHandler(async (req: Request, res: Response) => {
-  const { prompt, llmProvider, model, maxQuestions } = req.body;
+router.post('/generate', validateGenerateQuestions, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const { prompt, llmProvider, model, maxQuestions, language, tone, categories } = req.body;
 
-  const questions = await promptRefinementService.generateQuestions(prompt, llmProvider, model);
+  const { questions, answeredBy } = await promptRefinementService.generateQuestions(prompt, llmProvider, model, {
+    calls: [],
+    clientId: res.locals.clientId,
+  }, { language, tone, categories });
 
   // Limit questions if maxQuestions is specified
   const limitedQuestions = maxQuestions ? questions.slice(0, maxQuestions) : questions;
@@ -23,6 +40,7 @@ router.post('/generate', validateGenerateQuestions, asyncHandler(async (req: Req
       prompt,
       llmProvider,
       model,
+      answeredBy,
     },
     message: 'Questions generated successfully',
   };
@@ -30,4 +48,56 @@ router.post('/generate', validateGenerateQuestions, asyncHandler(async (req: Req
   res.json(response);
 }));
 
+// Generate questions, streaming each one over Server-Sent Events as soon as it is complete
+router.post('/generate/stream', validateGenerateQuestions, enforceQuota, asyncHandler(async (req: Request, res: Response) => {
+  const { prompt, llmProvider, model, maxQuestions, language, tone, categories } = req.body;
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = !res.writableEnded;
+  });
+
+  openEventStream(res);
+
+  const questions: Question[] = [];
+  let answeredBy: ProviderAttribution | undefined;
+  try {
+    for await (const generated of promptRefinementService.generateQuestionsStream(prompt, llmProvider, model, {
+      calls: [],
+      clientId: res.locals.clientId,
+    }, { language, tone, categories })) {
+      if (clientClosed) {
+        break; // Stops the provider stream as well
+      }
+
+      questions.push(generated.question);
+      answeredBy = generated.answeredBy;
+      writeServerSentEvent(res, 'question', generated.question);
+
+      if (maxQuestions && questions.length >= maxQuestions) {
+        break;
+      }
+    }
+
+    if (!clientClosed) {
+      writeServerSentEvent(res, 'complete', {
+        questions,
+        totalGenerated: questions.length,
+        prompt,
+        llmProvider,
+        model,
+        answeredBy,
+      });
+    }
+  } catch (error: any) {
+    console.error('Streaming question generation failed:', error);
+    writeServerSentEvent(res, 'error', {
+      message: error.message || 'Failed to generate questions',
+      code: error.code,
+    });
+  }
+
+  res.end();
+}));
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,155 @@
+import Redis from 'ioredis';
+import { KeyValueClient } from '../types';
+
+// KEYS[1] = hash, ARGV = guard field, guard value, expiry, remove prefix ('' for none), then field/value pairs
+const UPDATE_HASH_IF_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+local prefix = ARGV[4]
+if prefix ~= '' then
+  local kept = {}
+  for i = 5, #ARGV, 2 do
+    kept[ARGV[i]] = true
+  end
+  for _, field in ipairs(redis.call('HKEYS', KEYS[1])) do
+    if string.sub(field, 1, #prefix) == prefix and not kept[field] then
+      redis.call('HDEL', KEYS[1], field)
+    end
+  end
+end
+for i = 5, #ARGV, 2 do
+  redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+end
+redis.call('PEXPIREAT', KEYS[1], ARGV[3])
+return 1
+`;
+
+const toArgs = (fields: Record<string, string>) => Object.entries(fields).flat();
+
+/**
+ * KeyValueClient for Redis and Redis-compatible servers (Valkey, KeyDB, ...)
+ */
+export class RedisKeyValueClient implements KeyValueClient {
+  private redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url);
+    this.redis.on('error', error => {
+      console.error('Redis connection error:', error.message);
+    });
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(key);
+  }
+
+  async putHash(key: string, fields: Record<string, string>, expiresAt: number): Promise<void> {
+    await this.redis
+      .multi()
+      .del(key)
+      .hset(key, fields)
+      .pexpireat(key, expiresAt)
+      .exec();
+  }
+
+  async updateHashIf(
+    key: string,
+    guardField: string,
+    guardValue: string,
+    fields: Record<string, string>,
+    expiresAt: number,
+    removePrefix?: string
+  ): Promise<boolean> {
+    const updated = await this.redis.eval(
+      UPDATE_HASH_IF_SCRIPT,
+      1,
+      key,
+      guardField,
+      guardValue,
+      expiresAt,
+      removePrefix || '',
+      ...toArgs(fields)
+    );
+    return updated === 1;
+  }
+
+  async del(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    // SCAN rather than KEYS so large keyspaces do not block the server
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  disconnect(): void {
+    this.redis.disconnect();
+  }
+}
+
+/**
+ * In-process stand-in for Redis with the same expiry behaviour, for tests and local development
+ */
+export class InMemoryKeyValueClient implements KeyValueClient {
+  private hashes: Map<string, { fields: Record<string, string>; expiresAt: number }> = new Map();
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    const hash = this.getLive(key);
+    return hash ? { ...hash.fields } : {};
+  }
+
+  async putHash(key: string, fields: Record<string, string>, expiresAt: number): Promise<void> {
+    this.hashes.set(key, { fields: { ...fields }, expiresAt });
+  }
+
+  async updateHashIf(
+    key: string,
+    guardField: string,
+    guardValue: string,
+    fields: Record<string, string>,
+    expiresAt: number,
+    removePrefix?: string
+  ): Promise<boolean> {
+    const hash = this.getLive(key);
+    if (!hash || hash.fields[guardField] !== guardValue) {
+      return false;
+    }
+
+    if (removePrefix) {
+      for (const field of Object.keys(hash.fields)) {
+        if (field.startsWith(removePrefix) && !(field in fields)) {
+          delete hash.fields[field];
+        }
+      }
+    }
+    Object.assign(hash.fields, fields);
+    hash.expiresAt = expiresAt;
+    return true;
+  }
+
+  async del(key: string): Promise<void> {
+    this.hashes.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.hashes.keys()).filter(key => key.startsWith(prefix) && this.getLive(key));
+  }
+
+  // Like Redis, an expired key behaves as if it never existed
+  private getLive(key: string) {
+    const hash = this.hashes.get(key);
+    if (hash && Date.now() >= hash.expiresAt) {
+      this.hashes.delete(key);
+      return undefined;
+    }
+    return hash;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { PromptRefinementService } from './promptRefinementService';
+import { RedisSessionStorage } from './redisSessionStorage';
+import { InMemoryKeyValueClient } from './keyValueClient';
+import { SqliteSessionStorage } from './sqliteSessionStorage';
+import { createNewSession, sessionStorage, InMemorySessionStorage } from './sessionStorage';
+import { llmProviderFactory } from '../providers';
+import { ILLMProvider, Question, SessionStorage } from '../types';
+
+const question = (id: string): Question => ({
+  id,
+  text: `Question ${id}`,
+  type: 'single-choice',
+  order: 1,
+  category: 'context',
+  impact: 'high',
+  options: ['A', 'B'],
+  defaultOption: 0,
+});
+
+// Streams two questions, or fails before the first one
+const stubProvider = (id: string, fail = false): ILLMProvider => ({
+  id,
+  name: id,
+  displayName: id,
+  supportedModels: ['m'],
+  validateApiKey: async () => true,
+  listModels: async () => [],
+  generateQuestions: async () => [question('q1'), question('q2')],
+  async *generateQuestionsStream() {
+    if (fail) {
+      throw new Error('Provider is down');
+    }
+    yield question('q1');
+    yield question('q2');
+  },
+  refinePrompt: async prompt => prompt,
+  async *refinePromptStream(prompt) {
+    yield prompt;
+  },
+});
+
+// Stores made by the tests; their cleanup timers would keep the test process alive
+const stores: { destroy(): void }[] = [];
+const track = <T extends { destroy(): void }>(store: T): T => {
+  stores.push(store);
+  return store;
+};
+
+after(() => {
+  llmProviderFactory.removeProvider('test-stub');
+  llmProviderFactory.removeProvider('test-failing');
+  (sessionStorage as InMemorySessionStorage).destroy();
+  stores.forEach(store => store.destroy());
+});
+
+test('answers to different questions from two replicas are both kept', async () => {
+  // Two backend replicas sharing one Redis
+  const client = new InMemoryKeyValueClient();
+  const replicaA = new PromptRefinementService(new RedisSessionStorage(client, 'test:'));
+  const replicaB = new PromptRefinementService(new RedisSessionStorage(client, 'test:'));
+
+  const session = createNewSession('Write a poem', 'stub', 'm');
+  session.questions = [question('q1'), question('q2')];
+  await new RedisSessionStorage(client, 'test:').createSession(session);
+
+  // Both read the session before either writes its answer
+  await Promise.all([
+    replicaA.answerQuestion(session.id, 'q1', 'A'),
+    replicaB.answerQuestion(session.id, 'q2', 'B'),
+  ]);
+
+  const stored = await replicaA.getSession(session.id);
+  assert.deepEqual(
+    stored?.answers.map(answer => `${answer.questionId}=${answer.response}`).sort(),
+    ['q1=A', 'q2=B']
+  );
+});
+
+test('a streamed session is deleted when the client stops reading before it completes', async () => {
+  llmProviderFactory.registerProvider(stubProvider('test-stub'));
+  const store = track(new InMemorySessionStorage());
+  const service = new PromptRefinementService(store);
+
+  let sessionId: string | undefined;
+  for await (const event of service.createSessionStream({ originalPrompt: 'Write a poem', llmProvider: 'test-stub', model: 'm' })) {
+    if (event.type === 'session') {
+      sessionId = event.session.id;
+    } else if (event.type === 'question') {
+      break; // The client disconnected after the first question
+    }
+  }
+
+  assert.ok(sessionId);
+  assert.equal(await store.getSession(sessionId), null);
+});
+
+test('a streamed session is deleted when question generation fails', async () => {
+  llmProviderFactory.registerProvider(stubProvider('test-failing', true));
+  const store = track(new InMemorySessionStorage());
+  const service = new PromptRefinementService(store);
+
+  let sessionId: string | undefined;
+  await assert.rejects(async () => {
+    for await (const event of service.createSessionStream({ originalPrompt: 'Write a poem', llmProvider: 'test-failing', model: 'm' })) {
+      if (event.type === 'session') {
+        sessionId = event.session.id;
+      }
+    }
+  });
+
+  assert.ok(sessionId);
+  assert.equal(await store.getSession(sessionId), null);
+});
+
+test('a streamed session that completes is kept', async () => {
+  llmProviderFactory.registerProvider(stubProvider('test-stub'));
+  const store = track(new InMemorySessionStorage());
+  const service = new PromptRefinementService(store);
+
+  let sessionId: string | undefined;
+  for await (const event of service.createSessionStream({ originalPrompt: 'Write a poem', llmProvider: 'test-stub', model: 'm' })) {
+    if (event.type === 'complete') {
+      sessionId = event.result.session.id;
+    }
+  }
+
+  assert.ok(sessionId);
+  assert.equal((await store.getSession(sessionId))?.questions.length, 2);
+});
+
+test('concurrent prompt edits get their own revision versions', async () => {
+  const client = new InMemoryKeyValueClient();
+  const sqlite = track(new SqliteSessionStorage(':memory:'));
+  const memory = track(new InMemorySessionStorage());
+  const replicaSets: [string, SessionStorage, SessionStorage][] = [
+    ['redis', new RedisSessionStorage(client, 'test:'), new RedisSessionStorage(client, 'test:')],
+    ['sqlite', sqlite, sqlite],
+    ['memory', memory, memory],
+  ];
+
+  for (const [store, storageA, storageB] of replicaSets) {
+    const session = createNewSession('Write a poem', 'stub', 'm');
+    await storageA.createSession(session);
+
+    await Promise.all([
+      new PromptRefinementService(storageA).editPrompt(session.id, 'Write a sonnet'),
+      new PromptRefinementService(storageB).editPrompt(session.id, 'Write a haiku'),
+    ]);
+
+    const stored = await storageA.getSession(session.id);
+    assert.deepEqual(stored?.revisions.map(revision => revision.version), [1, 2], store);
+    assert.deepEqual(stored?.revisions.map(revision => revision.prompt).sort(), ['Write a haiku', 'Write a sonnet'], store);
+  }
+});
@@ -6,17 +6,52 @@ import {
   CreateSessionResponse, 
   RefinePromptRequest, 
   RefinePromptResponse, 
+  NextQuestionRequest,
+  NextQuestionResponse,
+  RefinementStreamEvent,
+  CreateSessionStreamEvent,
   GenerationOptions, 
-  RefinementOptions 
+  RefinementOptions,
+  ProviderAttribution,
+  QuestionRepairAttempt,
+  ProviderCallUsage,
+  UsageTotals,
+  PromptRevision,
+  PromptRevisionDiff,
+  PromptChange,
+  SessionStorage
 } from '../types';
 import { llmProviderFactory } from '../providers';
-import { sessionStorage } from './sessionStorage';
+import { sessionStorage as defaultSessionStorage, createNewSession } from './sessionStorage';
+import { providerFailover } from './providerFailover';
+import { usageTracker } from './usageTracker';
+import { quotaService } from './quotaService';
+import { diffWords } from '../utils/textDiff';
+import { splitRefinementOutput, parseChangeLog, ChangeLogSplitter } from '../utils/changeLog';
+import { findAnswerIssues } from '../utils/answers';
+import { AppError } from '../middleware/errorHandler';
 import { v4 as uuidv4 } from 'uuid';
 import config from '../config';
 
+export interface GeneratedQuestions {
+  questions: Question[];
+  answeredBy: ProviderAttribution;
+}
+
+// Language and tone the questions and refined prompts are written in, and the categories questions come from
+export type SessionPreferences = Pick<CreateSessionRequest, 'language' | 'tone' | 'categories'>;
+
+// The provider calls made for one request, and the API client whose quota they count against
+export interface UsageScope {
+  calls: ProviderCallUsage[];
+  clientId?: string;
+}
+
 export class PromptRefinementService {
-  async createSession(request: CreateSessionRequest): Promise<CreateSessionResponse> {
-    const { originalPrompt, llmProvider, model } = request;
+  constructor(private sessionStorage: SessionStorage = defaultSessionStorage) {}
+
+  async createSession(request: CreateSessionRequest, clientId?: string): Promise<CreateSessionResponse> {
+    const { originalPrompt, llmProvider, model, language, tone, categories } = request;
 
     // Validate provider
     const provider = llmProviderFactory.getProvider(llmProvider);
@@ -25,30 +60,87 @@ export class PromptRefinementService {
     }
 
     // Create new session
-    const session = sessionStorage.createNewSession(originalPrompt, llmProvider, model);
+    const session = createNewSession(originalPrompt, llmProvider, model, { language, tone, categories });
     
     // Generate initial questions
-    const questions = await this.generateQuestions(originalPrompt, llmProvider, model);
+    const usage: UsageScope = { calls: [], clientId };
+    const { questions, answeredBy } = await this.generateQuestions(originalPrompt, llmProvider, model, usage, session);
     
     // Update session with questions
     session.questions = questions;
     session.status = 'refining';
+    session.answeredBy = { generation: answeredBy };
+    session.usage = usageTracker.accumulate(undefined, usage.calls);
     
     // Store session
-    await sessionStorage.createSession(session);
+    await this.sessionStorage.createSession(session);
 
     return {
       session,
       questions,
+      answeredBy,
     };
   }
 
+  /**
+   * Streaming variant of createSession: stores the session up front, then yields
+   * each question as soon as the provider has finished generating it
+   */
+  async *createSessionStream(request: CreateSessionRequest, clientId?: string): AsyncGenerator<CreateSessionStreamEvent> {
+    const { originalPrompt, llmProvider, model, language, tone, categories } = request;
+
+    // Validate provider
+    const provider = llmProviderFactory.getProvider(llmProvider);
+    if (!provider) {
+      throw new Error(`LLM provider '${llmProvider}' is not available`);
+    }
+
+    const session = createNewSession(originalPrompt, llmProvider, model, { language, tone, categories });
+    await this.sessionStorage.createSession(session);
+
+    const questions: Question[] = [];
+    const usage: UsageScope = { calls: [], clientId };
+    let answeredBy: ProviderAttribution | undefined;
+    let completed = false;
+    try {
+      yield { type: 'session', session };
+
+      for await (const generated of this.generateQuestionsStream(originalPrompt, llmProvider, model, usage, session)) {
+        questions.push(generated.question);
+        answeredBy = generated.answeredBy;
+        // Persist as we go so answers to early questions are accepted mid-stream
+        await this.sessionStorage.updateSession(session.id, { questions: [...questions] });
+        yield { type: 'question', question: generated.question };
+      }
+
+      await this.sessionStorage.updateSession(session.id, {
+        questions,
+        status: 'refining',
+        answeredBy: { generation: answeredBy },
+        usage: usageTracker.accumulate(undefined, usage.calls),
+      });
+      completed = true;
+    } finally {
+      // Don't leave a draft session behind when generation fails or the client stops reading early
+      if (!completed) {
+        await this.sessionStorage.deleteSession(session.id).catch(() => undefined);
+      }
+    }
+
+    const updatedSession = await this.sessionStorage.getSession(session.id);
+    if (!updatedSession) {
+      throw new Error('Failed to retrieve updated session');
+    }
+
+    yield { type: 'complete', result: { session: updatedSession, questions, answeredBy } };
+  }
+
   async getSession(sessionId: string): Promise<RefinementSession | null> {
-    return await sessionStorage.getSession(sessionId);
+    return await this.sessionStorage.getSession(sessionId);
   }
 
-  async answerQuestion(sessionId: string, questionId: string, response: boolean | string): Promise<Answer> {
-    const session = await sessionStorage.getSession(sessionId);
+  async answerQuestion(sessionId: string, questionId: string, response: Answer['response']): Promise<Answer> {
+    const session = await this.sessionStorage.getSession(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
@@ -58,6 +150,7 @@ export class PromptRefinementService {
     if (!question) {
       throw new Error(`Question ${questionId} not found in session`);
     }
+    this.assertValidAnswers(session.questions, [{ questionId, response }]);
 
     // Create answer
     const answer: Answer = {
@@ -67,26 +160,84 @@ export class PromptRefinementService {
       timestamp: new Date(),
     };
 
-    // Add or update answer
-    const existingAnswerIndex = session.answers.findIndex(a => a.questionId === questionId);
-    if (existingAnswerIndex >= 0) {
-      session.answers[existingAnswerIndex] = answer;
-    } else {
-      session.answers.push(answer);
+    // Add or update answer; the store writes it alone so concurrent answers to other questions are kept
+    await this.sessionStorage.saveAnswer(sessionId, answer);
+
+    return answer;
+  }
+
+  /**
+   * Adaptive mode: a single question generated from the original prompt and every answer so far,
+   * linked to the answered question it follows up on and added to the session's questions
+   */
+  async generateNextQuestion(request: NextQuestionRequest, clientId?: string): Promise<NextQuestionResponse> {
+    const { sessionId, parentQuestionId } = request;
+
+    const session = await this.getExistingSession(sessionId);
+    const answers = request.answers ?? session.answers;
+    const llmProvider = request.llmProvider || session.llmProvider;
+    const model = request.model ?? (request.llmProvider ? undefined : session.model);
+
+    const provider = llmProviderFactory.getProvider(llmProvider);
+    if (!provider) {
+      throw new Error(`LLM provider '${llmProvider}' is not available`);
     }
+    this.assertValidAnswers(session.questions, answers);
 
-    // Update session
-    await sessionStorage.updateSession(sessionId, {
-      answers: session.answers,
+    // By default, follow up on the most recent answer to one of the session's questions
+    const parentId = parentQuestionId
+      ?? [...answers].reverse().find(a => session.questions.some(q => q.id === a.questionId))?.questionId;
+    const parent = session.questions.find(q => q.id === parentId);
+    if (!parent || !answers.some(a => a.questionId === parent.id)) {
+      throw new AppError(
+        parentQuestionId
+          ? `Question ${parentQuestionId} has not been answered in this session`
+          : 'Answer a question before asking for a follow-up',
+        400,
+        'NO_ANSWER'
+      );
+    }
+
+    const usage: UsageScope = { calls: [], clientId };
+    const repairs: QuestionRepairAttempt[] = [];
+    const followUp = { questions: session.questions, answers, parentQuestionId: parent.id };
+    const { result: questions, answeredBy } = await providerFailover.run(
+      llmProvider,
+      model,
+      (fallbackProvider, fallbackModel) => fallbackProvider.generateQuestions(session.originalPrompt, {
+        ...this.getGenerationOptions(fallbackModel, repairs, usage, session),
+        maxQuestions: 1,
+        followUp,
+      })
+    );
+    if (questions.length === 0) {
+      throw new Error('No follow-up question was generated');
+    }
+
+    const question: Question = {
+      ...questions[0],
+      order: session.questions.length,
+      parentQuestionId: parent.id,
+    };
+    const attribution = this.withRepairs(answeredBy, repairs);
+    await this.sessionStorage.updateSession(sessionId, {
+      questions: [...session.questions, question],
+      answers,
+      answeredBy: { ...session.answeredBy, generation: attribution },
+      usage: usageTracker.accumulate(session.usage, usage.calls),
     });
 
-    return answer;
+    return {
+      question,
+      session: await this.getExistingSession(sessionId),
+      answeredBy: attribution,
+    };
   }
 
-  async refinePrompt(request: RefinePromptRequest): Promise<RefinePromptResponse> {
+  async refinePrompt(request: RefinePromptRequest, clientId?: string): Promise<RefinePromptResponse> {
     const { sessionId, answers, llmProvider, model } = request;
 
-    const session = await sessionStorage.getSession(sessionId);
+    const session = await this.sessionStorage.getSession(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
@@ -95,34 +246,142 @@ export class PromptRefinementService {
     if (!provider) {
       throw new Error(`LLM provider '${llmProvider}' is not available`);
     }
+    this.assertValidAnswers(session.questions, answers);
 
     // Update session with answers
     session.answers = answers;
 
     // Generate refined prompt
-    const refinedPrompt = await provider.refinePrompt(
-      session.originalPrompt,
-      session.questions,
-      answers,
-      {
-        model,
-        temperature: 0.3,
-        explainChanges: true,
-      }
+    const usage: UsageScope = { calls: [], clientId };
+    const { result: output, answeredBy } = await providerFailover.run(
+      llmProvider,
+      model,
+      (fallbackProvider, fallbackModel) => fallbackProvider.refinePrompt(
+        session.originalPrompt,
+        session.questions,
+        answers,
+        this.getRefinementOptions(fallbackModel, usage, session)
+      )
     );
 
+    const { prompt: refinedPrompt, changeLog } = splitRefinementOutput(output);
+    const changes = changeLog === undefined ? undefined : parseChangeLog(changeLog, session.questions, answers);
+
+    return this.completeRefinement(request, refinedPrompt, changes, answeredBy, session, usage);
+  }
+
+  /**
+   * Streaming variant of refinePrompt: yields refined-prompt tokens as the provider
+   * produces them, then a final event carrying the updated session, change log and next questions.
+   * The change log itself is not streamed.
+   */
+  async *refinePromptStream(request: RefinePromptRequest, clientId?: string): AsyncGenerator<RefinementStreamEvent> {
+    const { sessionId, answers, llmProvider, model } = request;
+
+    const session = await this.sessionStorage.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const provider = llmProviderFactory.getProvider(llmProvider);
+    if (!provider) {
+      throw new Error(`LLM provider '${llmProvider}' is not available`);
+    }
+    this.assertValidAnswers(session.questions, answers);
+
+    let refinedPrompt = '';
+    const splitter = new ChangeLogSplitter();
+    const usage: UsageScope = { calls: [], clientId };
+    let answeredBy: ProviderAttribution | undefined;
+    for await (const { value: token, answeredBy: tokenAnsweredBy } of providerFailover.stream(
+      llmProvider,
+      model,
+      (fallbackProvider, fallbackModel) => fallbackProvider.refinePromptStream(
+        session.originalPrompt,
+        session.questions,
+        answers,
+        this.getRefinementOptions(fallbackModel, usage, session)
+      )
+    )) {
+      answeredBy = tokenAnsweredBy;
+      const text = splitter.push(token);
+      if (text) {
+        refinedPrompt += text;
+        yield { type: 'token', token: text };
+      }
+    }
+    const tail = splitter.flush();
+    if (tail) {
+      refinedPrompt += tail;
+      yield { type: 'token', token: tail };
+    }
+
+    const changes = splitter.changeLog === undefined
+      ? undefined
+      : parseChangeLog(splitter.changeLog, session.questions, answers);
+    const result = await this.completeRefinement(request, refinedPrompt.trim(), changes, answeredBy, session, usage);
+    yield { type: 'complete', result };
+  }
+
+  /**
+   * Answers must fit the type of the question they answer, e.g. a number within a number-range question's bounds
+   */
+  private assertValidAnswers(questions: Question[], answers: Pick<Answer, 'questionId' | 'response'>[]): void {
+    const issues = findAnswerIssues(questions, answers);
+    if (issues.length > 0) {
+      throw new AppError(issues.join('; '), 400, 'INVALID_ANSWER');
+    }
+  }
+
+  private getRefinementOptions(model: string | undefined, usage: UsageScope, preferences: SessionPreferences): RefinementOptions {
+    return {
+      model,
+      temperature: 0.3,
+      explainChanges: true,
+      language: preferences.language,
+      tone: preferences.tone,
+      onUsage: this.trackUsage(usage),
+    };
+  }
+
+  private async completeRefinement(
+    request: RefinePromptRequest,
+    refinedPrompt: string,
+    changes: PromptChange[] | undefined,
+    answeredBy: ProviderAttribution | undefined,
+    session: RefinementSession,
+    usage: UsageScope
+  ): Promise<RefinePromptResponse> {
+    const { sessionId, answers, llmProvider, model } = request;
+
     // Generate new questions based on the refined prompt
-    const newQuestions = await this.generateQuestions(refinedPrompt, llmProvider, model);
+    const generated = await this.generateQuestions(refinedPrompt, llmProvider, model, usage, session);
 
     // Update session
-    await sessionStorage.updateSession(sessionId, {
-      refinedPrompt,
-      answers,
-      questions: newQuestions,
-      status: 'refining', // Keep status as refining for continuous refinement
-    });
+    await this.sessionStorage.appendRevision(
+      sessionId,
+      this.newRevision({
+        prompt: refinedPrompt,
+        source: 'refine',
+        answers,
+        llmProvider: answeredBy?.llmProvider || llmProvider,
+        model: answeredBy ? answeredBy.model : model,
+        changes,
+      }),
+      {
+        refinedPrompt,
+        answers,
+        questions: generated.questions,
+        status: 'refining', // Keep status as refining for continuous refinement
+        answeredBy: {
+          generation: generated.answeredBy,
+          refinement: answeredBy,
+        },
+        usage: usageTracker.accumulate(session.usage, usage.calls),
+      }
+    );
 
-    const updatedSession = await sessionStorage.getSession(sessionId);
+    const updatedSession = await this.sessionStorage.getSession(sessionId);
     if (!updatedSession) {
       throw new Error('Failed to retrieve updated session');
     }
@@ -130,14 +389,21 @@ export class PromptRefinementService {
     return {
       refinedPrompt,
       session: updatedSession,
+      changes,
+      answeredBy,
     };
   }
 
+  /**
+   * Token usage of every provider call made along the way is appended to `usage.calls`
+   */
   async generateQuestions(
     prompt: string, 
     llmProvider: string, 
-    model?: string
-  ): Promise<Question[]> {
+    model?: string,
+    usage: UsageScope = { calls: [] },
+    preferences: SessionPreferences = {}
+  ): Promise<GeneratedQuestions> {
     console.log(`Generating questions with provider: ${llmProvider}, model: ${model || 'default'}`);
     
     const provider = llmProviderFactory.getProvider(llmProvider);
@@ -148,33 +414,186 @@ export class PromptRefinementService {
 
     console.log(`Provider found: ${provider.displayName}, maxQuestions: ${config.maxQuestionsPerSession}`);
 
-    const options: GenerationOptions = {
+    const repairs: QuestionRepairAttempt[] = [];
+    try {
+      const { result: questions, answeredBy } = await providerFailover.run(
+        llmProvider,
+        model,
+        (fallbackProvider, fallbackModel) => fallbackProvider.generateQuestions(prompt, this.getGenerationOptions(fallbackModel, repairs, usage, preferences))
+      );
+      console.log(`Generated ${questions.length} questions successfully with ${answeredBy.llmProvider}`);
+      return { questions, answeredBy: this.withRepairs(answeredBy, repairs) };
+    } catch (error) {
+      console.error('Question generation failed:', error);
+      throw error;
+    }
+  }
+
+  async *generateQuestionsStream(
+    prompt: string,
+    llmProvider: string,
+    model?: string,
+    usage: UsageScope = { calls: [] },
+    preferences: SessionPreferences = {}
+  ): AsyncGenerator<{ question: Question; answeredBy: ProviderAttribution }> {
+    console.log(`Streaming questions with provider: ${llmProvider}, model: ${model || 'default'}`);
+
+    const provider = llmProviderFactory.getProvider(llmProvider);
+    if (!provider) {
+      console.error(`LLM provider '${llmProvider}' is not available`);
+      throw new Error(`LLM provider '${llmProvider}' is not available`);
+    }
+
+    const repairs: QuestionRepairAttempt[] = [];
+    let generated = 0;
+    try {
+      for await (const { value: question, answeredBy } of providerFailover.stream(
+        llmProvider,
+        model,
+        (fallbackProvider, fallbackModel) => fallbackProvider.generateQuestionsStream(prompt, this.getGenerationOptions(fallbackModel, repairs, usage, preferences))
+      )) {
+        generated++;
+        yield { question, answeredBy: this.withRepairs(answeredBy, repairs) };
+      }
+      console.log(`Streamed ${generated} questions successfully`);
+    } catch (error) {
+      console.error('Question generation stream failed:', error);
+      throw error;
+    }
+  }
+
+  private getGenerationOptions(
+    model: string | undefined,
+    repairs: QuestionRepairAttempt[],
+    usage: UsageScope,
+    preferences: SessionPreferences
+  ): GenerationOptions {
+    return {
       model,
       maxQuestions: config.maxQuestionsPerSession,
       temperature: 0.7,
-      categories: ['clarity', 'specificity', 'context', 'constraints'],
+      categories: preferences.categories,
+      language: preferences.language,
+      tone: preferences.tone,
+      onRepairAttempt: attempt => repairs.push(attempt),
+      onUsage: this.trackUsage(usage),
     };
+  }
 
-    try {
-      const questions = await provider.generateQuestions(prompt, options);
-      console.log(`Generated ${questions.length} questions successfully`);
-      return questions;
-    } catch (error) {
-      console.error('Question generation failed:', error);
-      throw error;
+  // Every call counts towards the global totals and the client's quota; callers with a session also add it there
+  private trackUsage(usage: UsageScope): (call: ProviderCallUsage) => void {
+    return call => {
+      usageTracker.record(call);
+      if (usage.clientId) {
+        quotaService.record(usage.clientId, call);
+      }
+      usage.calls.push(call);
+    };
+  }
+
+  // Repair attempts are part of the response metadata, including those made by providers that later failed over
+  private withRepairs(answeredBy: ProviderAttribution, repairs: QuestionRepairAttempt[]): ProviderAttribution {
+    return repairs.length > 0 ? { ...answeredBy, repairs: [...repairs] } : answeredBy;
+  }
+
+  async getRevisions(sessionId: string): Promise<PromptRevision[]> {
+    const session = await this.getExistingSession(sessionId);
+    return session.revisions;
+  }
+
+  async getRevision(sessionId: string, version: number): Promise<PromptRevision> {
+    const session = await this.getExistingSession(sessionId);
+    return this.findRevision(session, version);
+  }
+
+  /**
+   * Word-level diff between two revisions; version 0 stands for the original prompt
+   */
+  async diffRevisions(sessionId: string, from: number, to: number): Promise<PromptRevisionDiff> {
+    const session = await this.getExistingSession(sessionId);
+    const promptAt = (version: number) =>
+      version === 0 ? session.originalPrompt : this.findRevision(session, version).prompt;
+
+    return {
+      from,
+      to,
+      segments: diffWords(promptAt(from), promptAt(to)),
+    };
+  }
+
+  /**
+   * Saves a prompt the user edited by hand as the session's latest revision
+   */
+  async editPrompt(sessionId: string, prompt: string): Promise<RefinementSession> {
+    await this.getExistingSession(sessionId);
+
+    await this.sessionStorage.appendRevision(
+      sessionId,
+      this.newRevision({ prompt, source: 'manual_edit' }),
+      { refinedPrompt: prompt }
+    );
+
+    return this.getExistingSession(sessionId);
+  }
+
+  /**
+   * Makes an earlier revision's prompt current again. History is never rewritten:
+   * the restore is recorded as a new rollback revision.
+   */
+  async restoreRevision(sessionId: string, version: number): Promise<RefinementSession> {
+    const session = await this.getExistingSession(sessionId);
+    const revision = this.findRevision(session, version);
+
+    await this.sessionStorage.appendRevision(
+      sessionId,
+      this.newRevision({
+        prompt: revision.prompt,
+        source: 'rollback',
+        restoredFrom: revision.version,
+      }),
+      { refinedPrompt: revision.prompt }
+    );
+
+    return this.getExistingSession(sessionId);
+  }
+
+  private async getExistingSession(sessionId: string): Promise<RefinementSession> {
+    const session = await this.sessionStorage.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
     }
+    return session;
+  }
+
+  private findRevision(session: RefinementSession, version: number): PromptRevision {
+    const revision = session.revisions.find(r => r.version === version);
+    if (!revision) {
+      throw new Error(`Revision ${version} not found in session ${session.id}`);
+    }
+    return revision;
+  }
+
+  // The store numbers the revision when it saves it, so concurrent saves never share a version
+  private newRevision(revision: Omit<PromptRevision, 'id' | 'version' | 'createdAt'>): Omit<PromptRevision, 'version'> {
+    return {
+      ...revision,
+      id: uuidv4(),
+      createdAt: new Date(),
+    };
   }
 
   async deleteSession(sessionId: string): Promise<void> {
-    await sessionStorage.deleteSession(sessionId);
+    await this.sessionStorage.deleteSession(sessionId);
   }
 
   async getSessionStats(): Promise<{
     totalSessions: number;
     activeSessions: number;
     completedSessions: number;
+    usage: UsageTotals;
+    usageByProvider: Record<string, UsageTotals>;
   }> {
-    const allSessions = sessionStorage.getAllSessions();
+    const allSessions = await this.sessionStorage.getAllSessions();
     const now = new Date();
 
     const activeSessions = allSessions.filter(s => 
@@ -189,6 +608,8 @@ export class PromptRefinementService {
       totalSessions: allSessions.length,
       activeSessions,
       completedSessions,
+      usage: usageTracker.getTotals(),
+      usageByProvider: usageTracker.getTotalsByProvider(),
     };
   }
 }
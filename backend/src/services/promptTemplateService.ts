@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreatePromptTemplateRequest,
+  PromptResolution,
+  PromptTemplate,
+  PromptTemplateType,
+  PromptTemplateVersion,
+  UpdatePromptTemplateRequest,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import {
+  baseGenerationPrompt,
+  baseRefinementPrompt,
+  findModelFamilyPrompt,
+  findPlaceholderIssues,
+  matchesModelPattern,
+  promptConfigs,
+  type ProviderId,
+} from '../prompts';
+import config from '../config';
+
+export interface PromptTemplateFilter {
+  type?: PromptTemplateType;
+  providerId?: string;
+}
+
+const reviveTemplate = (template: PromptTemplate): PromptTemplate => ({
+  ...template,
+  createdAt: new Date(template.createdAt),
+  updatedAt: new Date(template.updatedAt),
+  versions: template.versions.map(version => ({ ...version, createdAt: new Date(version.createdAt) })),
+});
+
+const BASE_PROMPTS: Record<PromptTemplateType, string> = {
+  generation: baseGenerationPrompt,
+  refinement: baseRefinementPrompt,
+};
+
+// Template models containing `*` are model-family patterns
+const isModelPattern = (model: string): boolean => model.includes('*');
+
+// The more literal characters a pattern has, the more specific it is
+const patternSpecificity = (pattern: string): number => pattern.replace(/\*/g, '').length;
+
+const describeScope = (type: PromptTemplateType, providerId: string, model?: string): string =>
+  `${type} template for ${providerId}${model ? ` model ${model}` : ''}`;
+
+/**
+ * Custom generation and refinement prompts, edited at runtime. A template replaces the built-in
+ * prompt of its type for a provider, for one of its models, or for a model family when its model
+ * is a pattern such as `llama-3.1-*`. Every change adds a version, and templates are saved to a
+ * JSON file so they survive restarts.
+ */
+export class PromptTemplateService {
+  private templates = new Map<string, PromptTemplate>();
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  listTemplates(filter: PromptTemplateFilter = {}): PromptTemplate[] {
+    return Array.from(this.templates.values())
+      .filter(template => !filter.type || template.type === filter.type)
+      .filter(template => !filter.providerId || template.providerId === filter.providerId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  getTemplate(id: string): PromptTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new Error(`Prompt template ${id} not found`);
+    }
+    return template;
+  }
+
+  createTemplate(request: CreatePromptTemplateRequest): PromptTemplate {
+    const { type, providerId, model, content, note } = request;
+    this.validateContent(type, content);
+
+    if (this.findByScope(type, providerId, model)) {
+      throw new AppError(`A ${describeScope(type, providerId, model)} already exists`, 409, 'TEMPLATE_EXISTS');
+    }
+
+    const now = new Date();
+    const template: PromptTemplate = {
+      id: uuidv4(),
+      type,
+      providerId,
+      model,
+      content,
+      version: 1,
+      versions: [{ version: 1, content, createdAt: now, note }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.templates.set(template.id, template);
+    this.save();
+    console.log(`Created ${describeScope(type, providerId, model)}`);
+    return template;
+  }
+
+  updateTemplate(id: string, request: UpdatePromptTemplateRequest): PromptTemplate {
+    const template = this.getTemplate(id);
+    this.validateContent(template.type, request.content);
+
+    return this.appendVersion(template, { content: request.content, note: request.note });
+  }
+
+  /**
+   * Make an earlier version current again, as a new version
+   */
+  restoreVersion(id: string, version: number): PromptTemplate {
+    const template = this.getTemplate(id);
+    const restored = template.versions.find(v => v.version === version);
+    if (!restored) {
+      throw new Error(`Version ${version} of prompt template ${id} not found`);
+    }
+
+    return this.appendVersion(template, {
+      content: restored.content,
+      note: `Restored version ${version}`,
+      restoredFrom: version,
+    });
+  }
+
+  deleteTemplate(id: string): void {
+    const template = this.getTemplate(id);
+    this.templates.delete(id);
+    this.save();
+    console.log(`Deleted ${describeScope(template.type, template.providerId, template.model)}`);
+  }
+
+  /**
+   * The system prompt template for a provider and model, and where it comes from. Custom templates are
+   * checked first, for the model, then for a model family, then for the provider; after them the
+   * built-in prompts, for the model family, then the provider, then the base prompt.
+   */
+  resolvePrompt(providerId: string, type: PromptTemplateType, model?: string): PromptResolution {
+    const scope = { type, providerId, model };
+
+    const custom = (model && this.findByScope(type, providerId, model)) || undefined;
+    if (custom) {
+      return { ...scope, level: 'model', ...this.describeTemplate(custom) };
+    }
+
+    const customFamily = model ? this.findFamilyTemplate(type, providerId, model) : undefined;
+    if (customFamily) {
+      return { ...scope, level: 'model-family', pattern: customFamily.model, ...this.describeTemplate(customFamily) };
+    }
+
+    const customProvider = this.findByScope(type, providerId);
+    if (customProvider) {
+      return { ...scope, level: 'provider', ...this.describeTemplate(customProvider) };
+    }
+
+    const family = model ? findModelFamilyPrompt(model, type) : undefined;
+    if (family) {
+      return { ...scope, level: 'model-family', origin: 'built-in', pattern: family.pattern, content: family.prompt };
+    }
+
+    // OpenAI-compatible providers can set their prompts in OPENAI_COMPATIBLE_PROVIDERS
+    const providerPrompt = config.openAICompatibleProviders.find(provider => provider.id === providerId)?.prompts?.[type]
+      || promptConfigs[providerId as ProviderId]?.[type];
+    if (providerPrompt) {
+      return { ...scope, level: 'provider', origin: 'built-in', content: providerPrompt };
+    }
+
+    return { ...scope, level: 'base', origin: 'built-in', content: BASE_PROMPTS[type] };
+  }
+
+  private describeTemplate(template: PromptTemplate): Pick<PromptResolution, 'origin' | 'templateId' | 'version' | 'content'> {
+    return {
+      origin: 'custom',
+      templateId: template.id,
+      version: template.version,
+      content: template.content,
+    };
+  }
+
+  // The most specific custom family template whose pattern matches the model
+  private findFamilyTemplate(type: PromptTemplateType, providerId: string, model: string): PromptTemplate | undefined {
+    return Array.from(this.templates.values())
+      .filter(template => template.type === type && template.providerId === providerId)
+      .filter(template => template.model && isModelPattern(template.model) && matchesModelPattern(template.model, model))
+      .sort((a, b) => patternSpecificity(b.model!) - patternSpecificity(a.model!))[0];
+  }
+
+  private findByScope(type: PromptTemplateType, providerId: string, model?: string): PromptTemplate | undefined {
+    return Array.from(this.templates.values()).find(template =>
+      template.type === type && template.providerId === providerId && template.model === model
+    );
+  }
+
+  private validateContent(type: PromptTemplateType, content: string): void {
+    const issues = findPlaceholderIssues(type, content);
+    if (issues.length > 0) {
+      throw new AppError(`Invalid ${type} template: ${issues.join('; ')}`, 400, 'INVALID_TEMPLATE');
+    }
+  }
+
+  private appendVersion(
+    template: PromptTemplate,
+    version: Omit<PromptTemplateVersion, 'version' | 'createdAt'>
+  ): PromptTemplate {
+    const now = new Date();
+    const updated: PromptTemplate = {
+      ...template,
+      content: version.content,
+      version: template.version + 1,
+      versions: [...template.versions, { ...version, version: template.version + 1, createdAt: now }],
+      updatedAt: now,
+    };
+
+    this.templates.set(template.id, updated);
+    this.save();
+    return updated;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    // A file that cannot be read stops the server rather than being overwritten on the next save
+    const templates: PromptTemplate[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    for (const template of templates) {
+      this.templates.set(template.id, reviveTemplate(template));
+    }
+    console.log(`Loaded ${templates.length} custom prompt templates from ${this.filePath}`);
+  }
+
+  private save(): void {
+    // Write to a temporary file first so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.templates.values()), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService(config.promptTemplates.path);
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { ILLMProvider, ProviderAttribution } from '../types';
+import { llmProviderFactory } from '../providers';
+import { classifyProviderError } from '../utils/errorHandler';
+import config from '../config';
+
+type ProviderCall<T> = (provider: ILLMProvider, model?: string) => Promise<T>;
+type ProviderStreamCall<T> = (provider: ILLMProvider, model?: string) => AsyncIterable<T>;
+
+/**
+ * Runs provider calls along the FAILOVER_CHAIN: the requested provider first, then each
+ * available provider in the chain. Only errors whose class is listed in FAILOVER_ON move on
+ * to the next provider; everything else (e.g. validation errors) is rethrown immediately.
+ */
+export class ProviderFailover {
+  async run<T>(
+    llmProvider: string,
+    model: string | undefined,
+    call: ProviderCall<T>
+  ): Promise<{ result: T; answeredBy: ProviderAttribution }> {
+    const failures: ProviderAttribution['failures'] = [];
+    let lastError: Error | undefined;
+
+    for (const [provider, providerModel] of this.getCandidates(llmProvider, model)) {
+      try {
+        const result = await call(provider, providerModel);
+        return {
+          result,
+          answeredBy: this.attribute(provider, providerModel, failures),
+        };
+      } catch (error: any) {
+        lastError = this.recordFailure(provider, error, failures);
+      }
+    }
+
+    throw this.exhausted(failures, lastError);
+  }
+
+  /**
+   * Streaming variant of run. A provider can only be abandoned before it has yielded
+   * anything; once output has reached the caller, failures are rethrown as-is.
+   */
+  async *stream<T>(
+    llmProvider: string,
+    model: string | undefined,
+    call: ProviderStreamCall<T>
+  ): AsyncGenerator<{ value: T; answeredBy: ProviderAttribution }> {
+    const failures: ProviderAttribution['failures'] = [];
+    let lastError: Error | undefined;
+
+    for (const [provider, providerModel] of this.getCandidates(llmProvider, model)) {
+      let answeredBy: ProviderAttribution | null = null;
+      try {
+        for await (const value of call(provider, providerModel)) {
+          answeredBy = answeredBy || this.attribute(provider, providerModel, failures);
+          yield { value, answeredBy };
+        }
+        return;
+      } catch (error: any) {
+        if (answeredBy) {
+          throw error;
+        }
+        lastError = this.recordFailure(provider, error, failures);
+      }
+    }
+
+    throw this.exhausted(failures, lastError);
+  }
+
+  /**
+   * The requested provider with its model, followed by the other available chain members
+   * on their default models
+   */
+  private getCandidates(llmProvider: string, model?: string): Array<[ILLMProvider, string | undefined]> {
+    const requested = llmProviderFactory.getProvider(llmProvider);
+    if (!requested) {
+      throw new Error(`LLM provider '${llmProvider}' is not available`);
+    }
+
+    const fallbacks = config.failover.chain
+      .filter(id => id !== llmProvider)
+      .map(id => llmProviderFactory.getProvider(id))
+      .filter((provider): provider is ILLMProvider => !!provider);
+
+    return [
+      [requested, model],
+      ...fallbacks.map((provider): [ILLMProvider, undefined] => [provider, undefined]),
+    ];
+  }
+
+  /**
+   * Record a failed attempt; rethrows errors that should not fail over
+   */
+  private recordFailure(provider: ILLMProvider, error: any, failures: ProviderAttribution['failures']): Error {
+    const errorClass = classifyProviderError(error);
+    failures.push({
+      llmProvider: provider.id,
+      errorClass,
+      message: error.message || 'Unknown error occurred',
+    });
+
+    if (!config.failover.errorClasses.includes(errorClass)) {
+      throw error;
+    }
+
+    console.warn(`Provider ${provider.id} failed with ${errorClass}; trying the next provider in the failover chain`);
+    return error;
+  }
+
+  private attribute(
+    provider: ILLMProvider,
+    model: string | undefined,
+    failures: ProviderAttribution['failures']
+  ): ProviderAttribution {
+    if (failures.length > 0) {
+      console.log(`Request answered by ${provider.id} after failover from ${failures.map(f => f.llmProvider).join(', ')}`);
+    }
+
+    return {
+      llmProvider: provider.id,
+      model,
+      failedOver: failures.length > 0,
+      failures: [...failures],
+    };
+  }
+
+  private exhausted(failures: ProviderAttribution['failures'], lastError?: Error): Error {
+    // With nothing to fail over to, surface the provider's own error unchanged
+    if (failures.length === 1 && lastError) {
+      return lastError;
+    }
+
+    const lastFailure = failures[failures.length - 1];
+    const tried = failures.map(f => `${f.llmProvider} (${f.errorClass})`).join(', ');
+    return new Error(`All providers in the failover chain failed: ${tried}. Last error: ${lastFailure.message}`);
+  }
+}
+
+export const providerFailover = new ProviderFailover();
\ No newline at end of file
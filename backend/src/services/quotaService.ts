@@ -0,0 +1,118 @@
+import { ProviderCallUsage, QuotaLimits, QuotaPeriod, QuotaStatus } from '../types';
+import { QuotaExceededError } from '../middleware/errorHandler';
+import { usageTracker } from './usageTracker';
+import config from '../config';
+
+interface PeriodUsage {
+  // UTC day (YYYY-MM-DD) or month (YYYY-MM) the counters belong to
+  key: string;
+  tokens: number;
+  cost: number;
+}
+
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+const periodKey = (period: QuotaPeriod, now: Date) =>
+  now.toISOString().slice(0, period === 'daily' ? 10 : 7);
+
+const periodEnd = (period: QuotaPeriod, now: Date) =>
+  period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+/**
+ * Token and cost quotas per API client over UTC days and months. Counters live in memory,
+ * so they start over when the server restarts.
+ */
+export class QuotaService {
+  private usage: Map<string, Record<QuotaPeriod, PeriodUsage>> = new Map();
+
+  /**
+   * Throws QuotaExceededError when any of the client's limits is used up; otherwise returns
+   * the limits that have passed the QUOTA_WARN_AT threshold
+   */
+  check(clientId: string): QuotaStatus[] {
+    const statuses = this.getStatus(clientId);
+
+    const exceeded = statuses.find(status => status.used >= status.limit);
+    if (exceeded) {
+      throw new QuotaExceededError(
+        `${describeQuota(exceeded)} is used up. It resets at ${exceeded.resetsAt.toISOString()}.`,
+        exceeded
+      );
+    }
+
+    return statuses.filter(status => status.used >= status.limit * config.quota.warnAt);
+  }
+
+  record(clientId: string, call: ProviderCallUsage): void {
+    const cost = usageTracker.getCost(call) || 0;
+    const usage = this.getUsage(clientId);
+
+    for (const period of PERIODS) {
+      usage[period].tokens += call.inputTokens + call.outputTokens;
+      usage[period].cost += cost;
+    }
+  }
+
+  /**
+   * Current usage against every limit configured for the client
+   */
+  getStatus(clientId: string): QuotaStatus[] {
+    const limits = this.getLimits(clientId);
+    const usage = this.getUsage(clientId);
+    const now = new Date();
+    const statuses: QuotaStatus[] = [];
+
+    for (const period of PERIODS) {
+      const tokenLimit = period === 'daily' ? limits.dailyTokens : limits.monthlyTokens;
+      const costLimit = period === 'daily' ? limits.dailyCost : limits.monthlyCost;
+      const resetsAt = periodEnd(period, now);
+
+      if (tokenLimit !== undefined) {
+        statuses.push({ period, metric: 'tokens', used: usage[period].tokens, limit: tokenLimit, resetsAt });
+      }
+      if (costLimit !== undefined) {
+        statuses.push({ period, metric: 'cost', used: usage[period].cost, limit: costLimit, resetsAt });
+      }
+    }
+
+    return statuses;
+  }
+
+  private getLimits(clientId: string): QuotaLimits {
+    return config.quota.clients[clientId] || config.quota.limits;
+  }
+
+  // The client's counters, starting new ones when a day or month has rolled over
+  private getUsage(clientId: string): Record<QuotaPeriod, PeriodUsage> {
+    const now = new Date();
+    let usage = this.usage.get(clientId);
+    if (!usage) {
+      usage = {
+        daily: { key: periodKey('daily', now), tokens: 0, cost: 0 },
+        monthly: { key: periodKey('monthly', now), tokens: 0, cost: 0 },
+      };
+      this.usage.set(clientId, usage);
+    }
+
+    for (const period of PERIODS) {
+      const key = periodKey(period, now);
+      if (usage[period].key !== key) {
+        usage[period] = { key, tokens: 0, cost: 0 };
+      }
+    }
+
+    return usage;
+  }
+}
+
+// e.g. "Daily cost quota ($4.98 of $5.00)"
+export const describeQuota = (status: QuotaStatus): string => {
+  const period = status.period === 'daily' ? 'Daily' : 'Monthly';
+  return status.metric === 'cost'
+    ? `${period} cost quota ($${status.used.toFixed(2)} of $${status.limit.toFixed(2)})`
+    : `${period} token quota (${status.used.toLocaleString('en-US')} of ${status.limit.toLocaleString('en-US')} tokens)`;
+};
+
+export const quotaService = new QuotaService();
\ No newline at end of file
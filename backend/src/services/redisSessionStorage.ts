@@ -0,0 +1,174 @@
+import { Answer, KeyValueClient, PromptRevision, RefinementSession, SessionStorage } from '../types';
+import { nextRevisionVersion } from '../utils/revisions';
+
+const SESSION_FIELD = 'session';
+const ANSWER_FIELD_PREFIX = 'answer:';
+// Concurrent writers to the same session retry their update this many times
+const MAX_UPDATE_ATTEMPTS = 5;
+
+type StoredSession = Omit<RefinementSession, 'answers'>;
+
+const reviveAnswer = (answer: Answer): Answer => ({ ...answer, timestamp: new Date(answer.timestamp) });
+
+const reviveRevision = (revision: PromptRevision): PromptRevision => ({
+  ...revision,
+  createdAt: new Date(revision.createdAt),
+  answers: revision.answers?.map(reviveAnswer),
+});
+
+const reviveSession = (json: string): StoredSession => {
+  const session = JSON.parse(json);
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    expiresAt: new Date(session.expiresAt),
+    // Sessions stored before revisions existed have none
+    revisions: (session.revisions || []).map(reviveRevision),
+  };
+};
+
+const answerFields = (answers: Answer[]): Record<string, string> =>
+  Object.fromEntries(answers.map(answer => [`${ANSWER_FIELD_PREFIX}${answer.questionId}`, JSON.stringify(answer)]));
+
+/**
+ * Session store on a Redis-compatible server, shared by every backend replica.
+ *
+ * Each session is one hash: the session itself under "session" and each answer under
+ * "answer:<questionId>". The hash expires natively at expiresAt. Updates are compare-and-set
+ * on the session field, so concurrent partial updates never overwrite each other's fields.
+ * An update with answers replaces them, as in the other stores: answer fields for questions
+ * no longer in the list are removed by the same compare-and-set. saveAnswer writes only its own
+ * answer field, so replicas answering different questions at the same time both keep their answer.
+ */
+export class RedisSessionStorage implements SessionStorage {
+  constructor(private client: KeyValueClient, private keyPrefix: string) {}
+
+  async createSession(session: RefinementSession): Promise<void> {
+    const { answers, ...stored } = session;
+    await this.client.putHash(
+      this.sessionKey(session.id),
+      { [SESSION_FIELD]: JSON.stringify(stored), ...answerFields(answers) },
+      new Date(session.expiresAt).getTime()
+    );
+  }
+
+  async getSession(sessionId: string): Promise<RefinementSession | null> {
+    const session = this.toSession(await this.client.hgetall(this.sessionKey(sessionId)));
+
+    // Redis expires the key itself; this covers clock skew between replicas and the server
+    if (session && new Date() > session.expiresAt) {
+      await this.deleteSession(sessionId);
+      return null;
+    }
+
+    return session;
+  }
+
+  async updateSession(sessionId: string, updates: Partial<RefinementSession>): Promise<void> {
+    const { answers, ...sessionUpdates } = updates;
+    await this.compareAndSet(
+      sessionId,
+      () => sessionUpdates,
+      answerFields(answers || []),
+      answers ? ANSWER_FIELD_PREFIX : undefined
+    );
+  }
+
+  async saveAnswer(sessionId: string, answer: Answer): Promise<void> {
+    await this.compareAndSet(sessionId, () => ({}), answerFields([answer]));
+  }
+
+  async appendRevision(
+    sessionId: string,
+    revision: Omit<PromptRevision, 'version'>,
+    updates: Partial<RefinementSession> = {}
+  ): Promise<PromptRevision> {
+    const { answers, ...sessionUpdates } = updates;
+    let appended!: PromptRevision;
+    // The version is picked from the session being compared, so a concurrent append makes this attempt retry
+    await this.compareAndSet(
+      sessionId,
+      current => {
+        appended = { ...revision, version: nextRevisionVersion(current.revisions) };
+        return { ...sessionUpdates, revisions: [...current.revisions, appended] };
+      },
+      answerFields(answers || []),
+      answers ? ANSWER_FIELD_PREFIX : undefined
+    );
+    return appended;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.client.del(this.sessionKey(sessionId));
+  }
+
+  async getAllSessions(): Promise<RefinementSession[]> {
+    const keys = await this.client.keys(this.sessionKey(''));
+    const sessions = await Promise.all(keys.map(async key => this.toSession(await this.client.hgetall(key))));
+    return sessions.filter((session): session is RefinementSession => session !== null);
+  }
+
+  async cleanupExpiredSessions(): Promise<void> {
+    // Nothing to do: every session key carries a native expiry at its expiresAt
+  }
+
+  /**
+   * Applies the session updates built from the current session and writes the extra fields,
+   * retrying while other writers get in between
+   */
+  private async compareAndSet(
+    sessionId: string,
+    buildUpdates: (current: StoredSession) => Partial<StoredSession>,
+    fields: Record<string, string>,
+    removePrefix?: string
+  ): Promise<void> {
+    const key = this.sessionKey(sessionId);
+
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = (await this.client.hgetall(key))[SESSION_FIELD];
+      if (!current) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      const currentSession = reviveSession(current);
+      const updatedSession: StoredSession = {
+        ...currentSession,
+        ...buildUpdates(currentSession),
+        id: sessionId, // Ensure ID cannot be changed
+        updatedAt: new Date(),
+      };
+
+      const updated = await this.client.updateHashIf(
+        key,
+        SESSION_FIELD,
+        current,
+        { [SESSION_FIELD]: JSON.stringify(updatedSession), ...fields },
+        new Date(updatedSession.expiresAt).getTime(),
+        removePrefix
+      );
+      if (updated) {
+        return;
+      }
+    }
+
+    throw new Error(`Session ${sessionId} is being updated concurrently, please retry`);
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`;
+  }
+
+  private toSession(hash: Record<string, string>): RefinementSession | null {
+    if (!hash[SESSION_FIELD]) {
+      return null;
+    }
+
+    const answers = Object.entries(hash)
+      .filter(([field]) => field.startsWith(ANSWER_FIELD_PREFIX))
+      .map(([, json]) => reviveAnswer(JSON.parse(json)))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return { ...reviveSession(hash[SESSION_FIELD]), answers };
+  }
+}
\ No newline at end of file
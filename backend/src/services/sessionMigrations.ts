@@ -0,0 +1,103 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Schema migrations for the SQLite session store, applied in order. The database's
+ * user_version records how many have run, so append new migrations and never edit old ones.
+ */
+export const SESSION_MIGRATIONS: string[] = [
+  // 1: sessions with their questions and answers
+  `
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    original_prompt TEXT NOT NULL,
+    refined_prompt TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL CHECK (status IN ('draft', 'refining', 'completed')),
+    llm_provider TEXT NOT NULL,
+    model TEXT,
+    answered_by TEXT,
+    usage TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX sessions_expires_at ON sessions (expires_at);
+
+  CREATE TABLE questions (
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    question_order INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    category TEXT NOT NULL,
+    impact TEXT NOT NULL,
+    explanation TEXT,
+    options TEXT NOT NULL,
+    default_option INTEGER NOT NULL,
+    PRIMARY KEY (session_id, id)
+  );
+
+  CREATE TABLE answers (
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    question_id TEXT NOT NULL,
+    response TEXT NOT NULL,
+    answered_at INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (session_id, id)
+  );
+  `,
+  // 2: prompt revision history
+  `
+  CREATE TABLE prompt_revisions (
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    id TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('refine', 'manual_edit', 'rollback')),
+    answers TEXT,
+    llm_provider TEXT,
+    model TEXT,
+    restored_from INTEGER,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (session_id, version)
+  );
+  `,
+  // 3: change log of refine revisions
+  `
+  ALTER TABLE prompt_revisions ADD COLUMN changes TEXT;
+  `,
+  // 4: language and tone of generated questions and refined prompts
+  `
+  ALTER TABLE sessions ADD COLUMN language TEXT;
+  ALTER TABLE sessions ADD COLUMN tone TEXT;
+  `,
+  // 5: question categories chosen for the session
+  `
+  ALTER TABLE sessions ADD COLUMN categories TEXT;
+  `,
+  // 6: question types; questions stored before them are single-choice
+  `
+  ALTER TABLE questions ADD COLUMN type TEXT NOT NULL DEFAULT 'single-choice';
+  ALTER TABLE questions ADD COLUMN number_range TEXT;
+  `,
+  // 7: follow-up questions link to the answered question they build on
+  `
+  ALTER TABLE questions ADD COLUMN parent_question_id TEXT;
+  `,
+];
+
+/**
+ * Brings the database up to the latest schema, each migration in its own transaction
+ */
+export const migrateSessionDatabase = (db: Database.Database): void => {
+  const applied = db.pragma('user_version', { simple: true }) as number;
+
+  SESSION_MIGRATIONS.slice(applied).forEach((sql, index) => {
+    const version = applied + index + 1;
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version}`);
+    })();
+    console.log(`Applied session store migration ${version}`);
+  });
+};
\ No newline at end of file
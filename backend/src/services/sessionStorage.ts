@@ -1,7 +1,39 @@
-import { RefinementSession, SessionStorage } from '../types';
+import { Answer, PromptRevision, RefinementSession, SessionStorage } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { nextRevisionVersion } from '../utils/revisions';
+import { SqliteSessionStorage } from './sqliteSessionStorage';
+import { RedisSessionStorage } from './redisSessionStorage';
+import { RedisKeyValueClient } from './keyValueClient';
 import config from '../config';
 
+export const createNewSession = (
+  originalPrompt: string,
+  llmProvider: string,
+  model?: string,
+  preferences: Pick<RefinementSession, 'language' | 'tone' | 'categories'> = {}
+): RefinementSession => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.sessionTimeoutHours * 60 * 60 * 1000);
+
+  return {
+    id: uuidv4(),
+    originalPrompt,
+    refinedPrompt: '',
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+    llmProvider,
+    model,
+    language: preferences.language,
+    tone: preferences.tone,
+    categories: preferences.categories,
+    questions: [],
+    answers: [],
+    revisions: [],
+    expiresAt,
+  };
+};
+
 export class InMemorySessionStorage implements SessionStorage {
   private sessions: Map<string, RefinementSession> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
@@ -45,6 +77,41 @@ export class InMemorySessionStorage implements SessionStorage {
     this.sessions.set(sessionId, updatedSession);
   }
 
+  async saveAnswer(sessionId: string, answer: Answer): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const existingIndex = session.answers.findIndex(a => a.questionId === answer.questionId);
+    const answers = existingIndex >= 0
+      ? session.answers.map((a, index) => index === existingIndex ? answer : a)
+      : [...session.answers, answer];
+
+    this.sessions.set(sessionId, { ...session, answers, updatedAt: new Date() });
+  }
+
+  async appendRevision(
+    sessionId: string,
+    revision: Omit<PromptRevision, 'version'>,
+    updates: Partial<RefinementSession> = {}
+  ): Promise<PromptRevision> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const appended = { ...revision, version: nextRevisionVersion(session.revisions) };
+    this.sessions.set(sessionId, {
+      ...session,
+      ...updates,
+      id: sessionId,
+      revisions: [...session.revisions, appended],
+      updatedAt: new Date(),
+    });
+    return appended;
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     this.sessions.delete(sessionId);
   }
@@ -68,34 +135,15 @@ export class InMemorySessionStorage implements SessionStorage {
     }
   }
 
-  // Helper methods
-  createNewSession(originalPrompt: string, llmProvider: string, model?: string): RefinementSession {
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + config.sessionTimeoutHours * 60 * 60 * 1000);
-
-    return {
-      id: uuidv4(),
-      originalPrompt,
-      refinedPrompt: '',
-      status: 'draft',
-      createdAt: now,
-      updatedAt: now,
-      llmProvider,
-      model,
-      questions: [],
-      answers: [],
-      expiresAt,
-    };
+  async getAllSessions(): Promise<RefinementSession[]> {
+    return Array.from(this.sessions.values());
   }
 
+  // Helper methods
   getSessionCount(): number {
     return this.sessions.size;
   }
 
-  getAllSessions(): RefinementSession[] {
-    return Array.from(this.sessions.values());
-  }
-
   private startCleanupInterval(): void {
     // Clean up expired sessions every 30 minutes
     this.cleanupInterval = setInterval(async () => {
@@ -112,5 +160,20 @@ export class InMemorySessionStorage implements SessionStorage {
   }
 }
 
-// Export singleton instance
-export const sessionStorage = new InMemorySessionStorage(); 
\ No newline at end of file
+const createSessionStorage = (): SessionStorage => {
+  if (config.sessionStore.type === 'sqlite') {
+    console.log(`Storing sessions in SQLite database ${config.sessionStore.sqlitePath}`);
+    return new SqliteSessionStorage(config.sessionStore.sqlitePath);
+  }
+  if (config.sessionStore.type === 'redis') {
+    console.log(`Storing sessions in Redis with key prefix "${config.sessionStore.redisKeyPrefix}"`);
+    return new RedisSessionStorage(
+      new RedisKeyValueClient(config.sessionStore.redisUrl),
+      config.sessionStore.redisKeyPrefix
+    );
+  }
+  return new InMemorySessionStorage();
+};
+
+// Export singleton instance, backed by the store selected with SESSION_STORE
+export const sessionStorage = createSessionStorage(); 
\ No newline at end of file
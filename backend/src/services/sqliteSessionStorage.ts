@@ -0,0 +1,394 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Answer, PromptRevision, Question, RefinementSession, SessionStorage } from '../types';
+import { migrateSessionDatabase } from './sessionMigrations';
+
+interface SessionRow {
+  id: string;
+  original_prompt: string;
+  refined_prompt: string;
+  status: RefinementSession['status'];
+  llm_provider: string;
+  model: string | null;
+  language: string | null;
+  tone: string | null;
+  categories: string | null;
+  answered_by: string | null;
+  usage: string | null;
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+}
+
+interface QuestionRow {
+  id: string;
+  question_order: number;
+  text: string;
+  type: Question['type'];
+  category: Question['category'];
+  impact: Question['impact'];
+  explanation: string | null;
+  options: string;
+  default_option: number;
+  number_range: string | null;
+  parent_question_id: string | null;
+}
+
+interface AnswerRow {
+  id: string;
+  question_id: string;
+  response: string;
+  answered_at: number;
+}
+
+interface RevisionRow {
+  version: number;
+  id: string;
+  prompt: string;
+  source: PromptRevision['source'];
+  answers: string | null;
+  llm_provider: string | null;
+  model: string | null;
+  restored_from: number | null;
+  changes: string | null;
+  created_at: number;
+}
+
+const toJson = (value: unknown): string | null => value === undefined ? null : JSON.stringify(value);
+
+/**
+ * Session store backed by a SQLite database, so sessions survive restarts. Sessions, questions,
+ * answers and prompt revisions are kept in their own tables; expiry works as in InMemorySessionStorage.
+ */
+export class SqliteSessionStorage implements SessionStorage {
+  private db: Database.Database;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    migrateSessionDatabase(this.db);
+
+    this.startCleanupInterval();
+  }
+
+  async createSession(session: RefinementSession): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO sessions (
+          id, original_prompt, refined_prompt, status, llm_provider, model, language, tone, categories,
+          answered_by, usage, created_at, updated_at, expires_at
+        ) VALUES (
+          @id, @originalPrompt, @refinedPrompt, @status, @llmProvider, @model, @language, @tone, @categories,
+          @answeredBy, @usage, @createdAt, @updatedAt, @expiresAt
+        )
+      `).run({
+        id: session.id,
+        originalPrompt: session.originalPrompt,
+        refinedPrompt: session.refinedPrompt,
+        status: session.status,
+        llmProvider: session.llmProvider,
+        model: session.model ?? null,
+        language: session.language ?? null,
+        tone: session.tone ?? null,
+        categories: toJson(session.categories),
+        answeredBy: toJson(session.answeredBy),
+        usage: toJson(session.usage),
+        createdAt: new Date(session.createdAt).getTime(),
+        updatedAt: new Date(session.updatedAt).getTime(),
+        expiresAt: new Date(session.expiresAt).getTime(),
+      });
+
+      this.replaceQuestions(session.id, session.questions);
+      this.replaceAnswers(session.id, session.answers);
+      this.replaceRevisions(session.id, session.revisions);
+    })();
+  }
+
+  async getSession(sessionId: string): Promise<RefinementSession | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as SessionRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    // Check if session has expired
+    if (Date.now() > row.expires_at) {
+      await this.deleteSession(sessionId);
+      return null;
+    }
+
+    return this.toSession(row);
+  }
+
+  async updateSession(sessionId: string, updates: Partial<RefinementSession>): Promise<void> {
+    this.db.transaction(() => this.applyUpdates(sessionId, updates))();
+  }
+
+  async appendRevision(
+    sessionId: string,
+    revision: Omit<PromptRevision, 'version'>,
+    updates: Partial<RefinementSession> = {}
+  ): Promise<PromptRevision> {
+    // IMMEDIATE takes the write lock before reading the latest version, so two writers cannot pick the same one
+    return this.db.transaction(() => {
+      this.applyUpdates(sessionId, updates);
+
+      const { next } = this.db
+        .prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM prompt_revisions WHERE session_id = ?')
+        .get(sessionId) as { next: number };
+      const appended = { ...revision, version: next };
+      this.insertRevision(sessionId, appended);
+      return appended;
+    }).immediate();
+  }
+
+  async saveAnswer(sessionId: string, answer: Answer): Promise<void> {
+    this.db.transaction(() => {
+      const result = this.db
+        .prepare('UPDATE sessions SET updated_at = ? WHERE id = ?')
+        .run(Date.now(), sessionId);
+      if (result.changes === 0) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      // A new answer to a question takes the place of the old one
+      const existing = this.db
+        .prepare('SELECT position FROM answers WHERE session_id = ? AND question_id = ?')
+        .get(sessionId, answer.questionId) as { position: number } | undefined;
+      const position = existing?.position ?? (this.db
+        .prepare('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM answers WHERE session_id = ?')
+        .get(sessionId) as { next: number }).next;
+
+      this.db.prepare('DELETE FROM answers WHERE session_id = ? AND question_id = ?').run(sessionId, answer.questionId);
+      this.db.prepare(`
+        INSERT INTO answers (session_id, id, question_id, response, answered_at, position)
+        VALUES (@sessionId, @id, @questionId, @response, @answeredAt, @position)
+      `).run({
+        sessionId,
+        id: answer.id,
+        questionId: answer.questionId,
+        response: JSON.stringify(answer.response),
+        answeredAt: new Date(answer.timestamp).getTime(),
+        position,
+      });
+    })();
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    // Questions, answers and revisions go with it (ON DELETE CASCADE)
+    this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+  }
+
+  async getAllSessions(): Promise<RefinementSession[]> {
+    const rows = this.db.prepare('SELECT * FROM sessions ORDER BY created_at').all() as SessionRow[];
+    return rows.map(row => this.toSession(row));
+  }
+
+  async cleanupExpiredSessions(): Promise<void> {
+    const result = this.db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(Date.now());
+
+    if (result.changes > 0) {
+      console.log(`Cleaned up ${result.changes} expired sessions`);
+    }
+  }
+
+  /**
+   * Writes the updated columns and child rows; runs inside the caller's transaction
+   */
+  private applyUpdates(sessionId: string, updates: Partial<RefinementSession>): void {
+    const columns: Record<string, unknown> = { updated_at: Date.now() };
+
+    if (updates.originalPrompt !== undefined) columns.original_prompt = updates.originalPrompt;
+    if (updates.refinedPrompt !== undefined) columns.refined_prompt = updates.refinedPrompt;
+    if (updates.status !== undefined) columns.status = updates.status;
+    if (updates.llmProvider !== undefined) columns.llm_provider = updates.llmProvider;
+    if ('model' in updates) columns.model = updates.model ?? null;
+    if ('language' in updates) columns.language = updates.language ?? null;
+    if ('tone' in updates) columns.tone = updates.tone ?? null;
+    if ('categories' in updates) columns.categories = toJson(updates.categories);
+    if ('answeredBy' in updates) columns.answered_by = toJson(updates.answeredBy);
+    if ('usage' in updates) columns.usage = toJson(updates.usage);
+    if (updates.expiresAt !== undefined) columns.expires_at = new Date(updates.expiresAt).getTime();
+
+    const assignments = Object.keys(columns).map(column => `${column} = @${column}`).join(', ');
+    const result = this.db
+      .prepare(`UPDATE sessions SET ${assignments} WHERE id = @sessionId`)
+      .run({ ...columns, sessionId });
+
+    if (result.changes === 0) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (updates.questions) {
+      this.replaceQuestions(sessionId, updates.questions);
+    }
+    if (updates.answers) {
+      this.replaceAnswers(sessionId, updates.answers);
+    }
+    if (updates.revisions) {
+      this.replaceRevisions(sessionId, updates.revisions);
+    }
+  }
+
+  private replaceQuestions(sessionId: string, questions: Question[]): void {
+    this.db.prepare('DELETE FROM questions WHERE session_id = ?').run(sessionId);
+
+    const insert = this.db.prepare(`
+      INSERT INTO questions (
+        session_id, id, question_order, text, type, category, impact, explanation, options, default_option, number_range, parent_question_id
+      ) VALUES (
+        @sessionId, @id, @order, @text, @type, @category, @impact, @explanation, @options, @defaultOption, @range, @parentQuestionId
+      )
+    `);
+    for (const question of questions) {
+      insert.run({
+        sessionId,
+        id: question.id,
+        order: question.order,
+        text: question.text,
+        type: question.type,
+        category: question.category,
+        impact: question.impact,
+        explanation: question.explanation ?? null,
+        options: JSON.stringify(question.options),
+        defaultOption: question.defaultOption,
+        range: question.range ? JSON.stringify(question.range) : null,
+        parentQuestionId: question.parentQuestionId ?? null,
+      });
+    }
+  }
+
+  private replaceAnswers(sessionId: string, answers: Answer[]): void {
+    this.db.prepare('DELETE FROM answers WHERE session_id = ?').run(sessionId);
+
+    const insert = this.db.prepare(`
+      INSERT INTO answers (session_id, id, question_id, response, answered_at, position)
+      VALUES (@sessionId, @id, @questionId, @response, @answeredAt, @position)
+    `);
+    answers.forEach((answer, position) => {
+      insert.run({
+        sessionId,
+        id: answer.id,
+        questionId: answer.questionId,
+        // JSON keeps boolean answers apart from string ones
+        response: JSON.stringify(answer.response),
+        answeredAt: new Date(answer.timestamp).getTime(),
+        position,
+      });
+    });
+  }
+
+  private replaceRevisions(sessionId: string, revisions: PromptRevision[]): void {
+    this.db.prepare('DELETE FROM prompt_revisions WHERE session_id = ?').run(sessionId);
+
+    for (const revision of revisions) {
+      this.insertRevision(sessionId, revision);
+    }
+  }
+
+  // The (session_id, version) primary key refuses a second revision with the same version
+  private insertRevision(sessionId: string, revision: PromptRevision): void {
+    this.db.prepare(`
+      INSERT INTO prompt_revisions (
+        session_id, version, id, prompt, source, answers, llm_provider, model, restored_from, changes, created_at
+      ) VALUES (
+        @sessionId, @version, @id, @prompt, @source, @answers, @llmProvider, @model, @restoredFrom, @changes, @createdAt
+      )
+    `).run({
+      sessionId,
+      version: revision.version,
+      id: revision.id,
+      prompt: revision.prompt,
+      source: revision.source,
+      answers: toJson(revision.answers),
+      llmProvider: revision.llmProvider ?? null,
+      model: revision.model ?? null,
+      restoredFrom: revision.restoredFrom ?? null,
+      changes: toJson(revision.changes),
+      createdAt: new Date(revision.createdAt).getTime(),
+    });
+  }
+
+  private toSession(row: SessionRow): RefinementSession {
+    const questions = this.db
+      .prepare('SELECT * FROM questions WHERE session_id = ? ORDER BY question_order')
+      .all(row.id) as QuestionRow[];
+    const answers = this.db
+      .prepare('SELECT * FROM answers WHERE session_id = ? ORDER BY position')
+      .all(row.id) as AnswerRow[];
+    const revisions = this.db
+      .prepare('SELECT * FROM prompt_revisions WHERE session_id = ? ORDER BY version')
+      .all(row.id) as RevisionRow[];
+
+    return {
+      id: row.id,
+      originalPrompt: row.original_prompt,
+      refinedPrompt: row.refined_prompt,
+      status: row.status,
+      llmProvider: row.llm_provider,
+      model: row.model ?? undefined,
+      language: row.language ?? undefined,
+      tone: row.tone ?? undefined,
+      categories: row.categories ? JSON.parse(row.categories) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      expiresAt: new Date(row.expires_at),
+      answeredBy: row.answered_by ? JSON.parse(row.answered_by) : undefined,
+      usage: row.usage ? JSON.parse(row.usage) : undefined,
+      questions: questions.map(question => ({
+        id: question.id,
+        text: question.text,
+        order: question.question_order,
+        type: question.type,
+        category: question.category,
+        impact: question.impact,
+        explanation: question.explanation ?? undefined,
+        options: JSON.parse(question.options),
+        defaultOption: question.default_option,
+        range: question.number_range ? JSON.parse(question.number_range) : undefined,
+        parentQuestionId: question.parent_question_id ?? undefined,
+      })),
+      answers: answers.map(answer => ({
+        id: answer.id,
+        questionId: answer.question_id,
+        response: JSON.parse(answer.response),
+        timestamp: new Date(answer.answered_at),
+      })),
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        version: revision.version,
+        prompt: revision.prompt,
+        source: revision.source,
+        createdAt: new Date(revision.created_at),
+        answers: revision.answers
+          ? (JSON.parse(revision.answers) as Answer[]).map(answer => ({ ...answer, timestamp: new Date(answer.timestamp) }))
+          : undefined,
+        llmProvider: revision.llm_provider ?? undefined,
+        model: revision.model ?? undefined,
+        restoredFrom: revision.restored_from ?? undefined,
+        changes: revision.changes ? JSON.parse(revision.changes) : undefined,
+      })),
+    };
+  }
+
+  private startCleanupInterval(): void {
+    // Clean up expired sessions every 30 minutes
+    this.cleanupInterval = setInterval(async () => {
+      await this.cleanupExpiredSessions();
+    }, 30 * 60 * 1000);
+  }
+
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.db.close();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { ProviderCallUsage, UsageTotals, ModelPrice } from '../types';
+import config from '../config';
+
+export const emptyUsage = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0,
+  unpricedCalls: 0,
+});
+
+/**
+ * Prices provider calls from the MODEL_PRICES table and keeps process-wide usage totals
+ * (reset on restart, like the in-memory session store)
+ */
+export class UsageTracker {
+  private totals: UsageTotals = emptyUsage();
+  private totalsByProvider: Map<string, UsageTotals> = new Map();
+
+  record(call: ProviderCallUsage): void {
+    const cost = this.getCost(call);
+    console.log(
+      `Usage ${call.llmProvider}/${call.model} ${call.operation}: ${call.inputTokens} input + ${call.outputTokens} output tokens` +
+      (cost === null ? ' (no price configured)' : ` ($${cost.toFixed(6)})`)
+    );
+
+    this.totals = this.accumulate(this.totals, [call]);
+    this.totalsByProvider.set(
+      call.llmProvider,
+      this.accumulate(this.totalsByProvider.get(call.llmProvider), [call])
+    );
+  }
+
+  /**
+   * New totals with the given calls added, e.g. to a session's usage
+   */
+  accumulate(totals: UsageTotals | undefined, calls: ProviderCallUsage[]): UsageTotals {
+    return calls.reduce((sum, call) => {
+      const cost = this.getCost(call);
+      return {
+        calls: sum.calls + 1,
+        inputTokens: sum.inputTokens + call.inputTokens,
+        outputTokens: sum.outputTokens + call.outputTokens,
+        cost: sum.cost + (cost || 0),
+        unpricedCalls: sum.unpricedCalls + (cost === null ? 1 : 0),
+      };
+    }, totals || emptyUsage());
+  }
+
+  getTotals(): UsageTotals {
+    return { ...this.totals };
+  }
+
+  getTotalsByProvider(): Record<string, UsageTotals> {
+    return Object.fromEntries(this.totalsByProvider);
+  }
+
+  // USD, or null when the model has no configured price
+  getCost(call: ProviderCallUsage): number | null {
+    const price = this.findPrice(call.model);
+    if (!price) {
+      return null;
+    }
+    return (call.inputTokens * price.input + call.outputTokens * price.output) / 1_000_000;
+  }
+
+  // Exact model id first, then the longest configured prefix ("gpt-4o-mini" before "gpt-4o" before "gpt-4")
+  private findPrice(model: string): ModelPrice | undefined {
+    if (config.pricing[model]) {
+      return config.pricing[model];
+    }
+
+    const prefix = Object.keys(config.pricing)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? config.pricing[prefix] : undefined;
+  }
+}
+
+export const usageTracker = new UsageTracker();
\ No newline at end of file
@@ -9,26 +9,127 @@ export interface ILLMProvider {
   readonly supportedModels: string[];
 
   validateApiKey(apiKey: string): Promise<boolean>;
+  // Models currently offered by the provider's models endpoint (uncached)
+  listModels(): Promise<ModelInfo[]>;
   generateQuestions(
     prompt: string,
     options?: GenerationOptions
   ): Promise<Question[]>;
+  generateQuestionsStream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncIterable<Question>;
   refinePrompt(
     originalPrompt: string,
     questions: Question[],
     answers: Answer[],
     options?: RefinementOptions
   ): Promise<string>;
+  refinePromptStream(
+    originalPrompt: string,
+    questions: Question[],
+    answers: Answer[],
+    options?: RefinementOptions
+  ): AsyncIterable<string>;
 }
 
 export interface SessionStorage {
   createSession(session: RefinementSession): Promise<void>;
   getSession(sessionId: string): Promise<RefinementSession | null>;
   updateSession(sessionId: string, updates: Partial<RefinementSession>): Promise<void>;
+  // Adds the answer, or replaces the earlier answer to the same question, leaving other answers as stored
+  saveAnswer(sessionId: string, answer: Answer): Promise<void>;
+  // Applies the updates and adds the revision as the session's next version in one step
+  appendRevision(
+    sessionId: string,
+    revision: Omit<PromptRevision, 'version'>,
+    updates?: Partial<RefinementSession>
+  ): Promise<PromptRevision>;
   deleteSession(sessionId: string): Promise<void>;
+  // Every stored session, expired ones included until the next cleanup
+  getAllSessions(): Promise<RefinementSession[]>;
   cleanupExpiredSessions(): Promise<void>;
 }
 
+export type SessionStoreType = 'memory' | 'sqlite' | 'redis';
+
+/**
+ * The few hash operations the Redis session store needs, so it can run against Redis
+ * or an in-process fake. Expiry times are absolute (ms since epoch).
+ */
+export interface KeyValueClient {
+  // Empty object when the key does not exist
+  hgetall(key: string): Promise<Record<string, string>>;
+  // Replaces the whole hash and its expiry in one step
+  putHash(key: string, fields: Record<string, string>, expiresAt: number): Promise<void>;
+  // Writes the fields and expiry only if guardField still holds guardValue; false otherwise.
+  // With removePrefix, fields starting with it that are not among `fields` are removed in the same step
+  updateHashIf(
+    key: string,
+    guardField: string,
+    guardValue: string,
+    fields: Record<string, string>,
+    expiresAt: number,
+    removePrefix?: string
+  ): Promise<boolean>;
+  del(key: string): Promise<void>;
+  // Keys starting with the prefix
+  keys(prefix: string): Promise<string[]>;
+}
+
+export interface RetryPolicy {
+  // Total attempts including the first call; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: ProviderErrorClass[];
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Hard limits per client; unset limits are not enforced
+export interface QuotaLimits {
+  dailyTokens?: number;
+  dailyCost?: number;
+  monthlyTokens?: number;
+  monthlyCost?: number;
+}
+
+// A QUOTA_CLIENTS entry: the client's limits, and the secret its requests must carry
+export interface QuotaClient extends QuotaLimits {
+  secret?: string;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // Error rate over the recent window that opens the circuit (once the window is half full)
+  errorRateThreshold: number;
+  windowSize: number;
+  // How long the circuit stays open before a single trial request is let through
+  openDurationMs: number;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  id: string;
+  displayName: string;
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  models: string[];
+  defaultModel?: string;
+  jsonMode?: boolean;
+  prompts?: {
+    generation?: string;
+    refinement?: string;
+  };
+  retry?: Partial<RetryPolicy>;
+}
+
 export interface Config {
   port: number;
   nodeEnv: string;
@@ -36,8 +137,24 @@ export interface Config {
   sessionSecret: string;
   sessionTimeoutHours: number;
   maxQuestionsPerSession: number;
+  sessionStore: {
+    type: SessionStoreType;
+    // Database file used when type is 'sqlite'
+    sqlitePath: string;
+    // Server and key prefix used when type is 'redis'
+    redisUrl: string;
+    redisKeyPrefix: string;
+  };
+  promptTemplates: {
+    // JSON file that keeps the custom prompt templates
+    path: string;
+    // When set, template changes need this key in the X-Admin-Key header
+    adminKey?: string;
+  };
   defaultLLMProvider: string;
   defaultModel: string;
+  enabledProviders?: string[];
+  providerHealthProbe: boolean;
   llmProviders: {
     openai?: {
       apiKey: string;
@@ -59,6 +176,45 @@ export interface Config {
       baseUrl?: string;
     };
   };
+  openAICompatibleProviders: OpenAICompatibleProviderConfig[];
+  retry: {
+    defaults: RetryPolicy;
+    // Per-provider overrides from <PROVIDER>_RETRY_* variables
+    providers: Record<string, Partial<RetryPolicy>>;
+  };
+  circuitBreaker: CircuitBreakerOptions;
+  models: {
+    // How long a provider's discovered model list is reused before it is fetched again
+    cacheTtlMs: number;
+    // Models from <PROVIDER>_MODELS, listed first and offered even if discovery does not return them
+    overrides: Record<string, string[]>;
+  };
+  // Keyed by model id or model id prefix (e.g. "claude-3-5-sonnet" covers every dated snapshot)
+  pricing: Record<string, ModelPrice>;
+  quota: {
+    // Limits for every client, and per-client overrides from QUOTA_CLIENTS
+    limits: QuotaLimits;
+    clients: Record<string, QuotaClient>;
+    // Fraction of a limit at which responses start carrying an X-Quota-Warning header
+    warnAt: number;
+    // Request header identifying the API client; only ids listed in QUOTA_CLIENTS are honoured,
+    // every other request is keyed by IP
+    clientHeader: string;
+    // Request header carrying the client's secret, for clients configured with one
+    secretHeader: string;
+  };
+  // The question taxonomy, from QUESTION_CATEGORIES or the built-in default
+  questionCategories: QuestionCategory[];
+  questionRepair: {
+    // How many times invalid question JSON is sent back to the model before giving up
+    maxAttempts: number;
+  };
+  failover: {
+    // Ordered provider ids tried after the requested provider fails
+    chain: string[];
+    // Error classes that move on to the next provider; anything else is rethrown
+    errorClasses: ProviderErrorClass[];
+  };
 }
 
 export interface LoggerConfig {
@@ -72,6 +228,7 @@ import {
   RefinementSession,
   Question,
   Answer,
+  PromptRevision,
   LLMProvider,
   GenerationOptions,
   RefinementOptions,
@@ -80,8 +237,15 @@ import {
   AnswerQuestionRequest,
   RefinePromptRequest,
   RefinePromptResponse,
+  NextQuestionRequest,
+  NextQuestionResponse,
   ApiResponse,
   ErrorResponse,
   LLMProviderType,
   ProviderConfig,
+  ProviderErrorClass,
+  ModelInfo,
+  QuestionCategory,
+  QuestionType,
+  NumberRange,
 } from './shared'; 
\ No newline at end of file
@@ -7,26 +7,110 @@ export interface RefinementSession {
   updatedAt: Date;
   llmProvider: string;
   model?: string;
+  // Language and tone the questions and refined prompts are written in
+  language?: string;
+  tone?: string;
+  // Categories questions are generated from; all of them when unset
+  categories?: string[];
   questions: Question[];
   answers: Answer[];
   expiresAt: Date;
+  answeredBy?: SessionProviderAttribution;
+  usage?: UsageTotals;
+  // Every version the prompt has gone through, oldest first
+  revisions: PromptRevision[];
+}
+
+export type PromptRevisionSource = 'refine' | 'manual_edit' | 'rollback';
+
+export interface PromptRevision {
+  id: string;
+  // 1-based position in the session's history
+  version: number;
+  prompt: string;
+  source: PromptRevisionSource;
+  createdAt: Date;
+  // The answers the refinement was based on (refine revisions only)
+  answers?: Answer[];
+  // Who wrote it (refine revisions only)
+  llmProvider?: string;
+  model?: string;
+  // Version whose prompt was restored (rollback revisions only)
+  restoredFrom?: number;
+  // What the refinement changed and why (refine revisions only)
+  changes?: PromptChange[];
+}
+
+// One entry of the change log that comes with a refined prompt
+export interface PromptChange {
+  // What changed in the prompt
+  change: string;
+  // Why it was changed
+  reason: string;
+  // The question and answer that drove the change; absent for general improvements
+  questionId?: string;
+  question?: string;
+  answer?: string;
+}
+
+// One run of a word-level diff: text present in both versions, only in the newer one or only in the older one
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface PromptRevisionDiff {
+  from: number;
+  to: number;
+  segments: DiffSegment[];
+}
+
+// How a question is answered, and so what its Answer.response holds:
+// single-choice: string (one of the options, or the user's own wording); multi-select: string[] of options;
+// free-text: string; number-range: number within the range; yes-no: boolean
+export type QuestionType = 'single-choice' | 'multi-select' | 'free-text' | 'number-range' | 'yes-no';
+
+// Bounds of a number-range question, e.g. a target word count
+export interface NumberRange {
+  min: number;
+  max: number;
+  step: number;
+  // Shown next to the value, e.g. "words"
+  unit?: string;
+  defaultValue: number;
 }
 
 export interface Question {
   id: string;
   text: string;
   order: number;
-  category: 'clarity' | 'specificity' | 'context' | 'constraints';
+  type: QuestionType;
+  // Id of one of the configured question categories
+  category: string;
   impact: 'high' | 'medium' | 'low';
   explanation?: string;
+  // Choices of single-choice and multi-select questions, the yes and no labels of yes-no questions; empty otherwise
   options: string[];
+  // Index of the preselected option of single-choice and yes-no questions
   defaultOption: number;
+  // number-range questions only
+  range?: NumberRange;
+  // Follow-up questions: the answered question this one builds on
+  parentQuestionId?: string;
+}
+
+// One category of the question taxonomy, as returned by GET /api/questions/categories
+export interface QuestionCategory {
+  id: string;
+  name: string;
+  // What questions in this category find out; written into the generation prompt
+  description: string;
 }
 
 export interface Answer {
   id: string;
   questionId: string;
-  response: boolean | string;
+  response: boolean | string | string[] | number;
   timestamp: Date;
 }
 
@@ -39,36 +123,155 @@ export interface LLMProvider {
   supportedModels: string[];
   isEnabled: boolean;
   isAvailable?: boolean;
+  unavailableReason?: ProviderUnavailableReason;
+  unavailableMessage?: string;
+  health?: ProviderHealth;
+}
+
+// A model offered by a provider, as returned by GET /api/providers/:providerId/models
+export interface ModelInfo {
+  id: string;
+  displayName?: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  ownedBy?: string;
+  // discovered: listed by the provider's models endpoint; config: from the override list;
+  // default: built-in fallback used when discovery is unavailable
+  source: 'discovered' | 'config' | 'default';
+}
+
+export type ProviderUnavailableReason =
+  | 'disabled'
+  | 'missing_credentials'
+  | 'initialization_failed'
+  | 'health_check_failed';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Live health of a registered provider, tracked by its circuit breaker over the most recent calls
+export interface ProviderHealth {
+  circuitState: CircuitState;
+  errorRate: number;
+  sampleSize: number;
+  latencyP50Ms?: number;
+  latencyP95Ms?: number;
+  lastError?: {
+    message: string;
+    errorClass: ProviderErrorClass;
+    at: Date;
+  };
+  // While open: when the next trial request will be let through
+  retryAt?: Date;
+}
+
+// Failure classes used to decide whether a request fails over to the next provider in the chain
+export type ProviderErrorClass =
+  | 'rate_limit'
+  | 'server_error'
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'validation'
+  | 'invalid_response'
+  | 'unknown';
+
+// Which provider actually answered; differs from the requested one after a failover
+export interface ProviderAttribution {
+  llmProvider: string;
+  model?: string;
+  failedOver: boolean;
+  failures: Array<{
+    llmProvider: string;
+    errorClass: ProviderErrorClass;
+    message: string;
+  }>;
+  // Rounds of sending invalid question JSON back to the model for correction
+  repairs?: QuestionRepairAttempt[];
+}
+
+// Tokens consumed by one provider API call
+export interface ProviderCallUsage {
+  llmProvider: string;
+  model: string;
+  operation: 'generation' | 'refinement' | 'repair';
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Usage accumulated over many calls; cost is in USD, from the per-model price table
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // Calls to models without a configured price: their tokens are counted, their cost is not
+  unpricedCalls: number;
+}
+
+export interface QuestionRepairAttempt {
+  llmProvider: string;
+  attempt: number;
+  // Validation errors the model was asked to fix
+  issues: string[];
+  succeeded: boolean;
+}
+
+export interface SessionProviderAttribution {
+  generation?: ProviderAttribution;
+  refinement?: ProviderAttribution;
 }
 
 export interface GenerationOptions {
   model?: string;
   maxQuestions?: number;
   temperature?: number;
+  // Ids of the question categories to ask about; every configured category when unset
   categories?: string[];
+  language?: string;
+  tone?: string;
+  // Follow-up generation: what has been answered so far, and the answered question to build on
+  followUp?: {
+    questions: Question[];
+    answers: Answer[];
+    parentQuestionId: string;
+  };
+  // Server-side only: called after each attempt to repair invalid question output
+  onRepairAttempt?: (attempt: QuestionRepairAttempt) => void;
+  // Server-side only: called with the token usage of every provider API call
+  onUsage?: (usage: ProviderCallUsage) => void;
 }
 
 export interface RefinementOptions {
   model?: string;
   temperature?: number;
   explainChanges?: boolean;
+  language?: string;
+  tone?: string;
+  // Server-side only: called with the token usage of every provider API call
+  onUsage?: (usage: ProviderCallUsage) => void;
 }
 
 export interface CreateSessionRequest {
   originalPrompt: string;
   llmProvider: string;
   model?: string;
+  // e.g. "German"; defaults to the language of the prompt
+  language?: string;
+  tone?: string;
+  // Only ask questions from these categories
+  categories?: string[];
 }
 
 export interface CreateSessionResponse {
   session: RefinementSession;
   questions: Question[];
+  answeredBy?: ProviderAttribution;
 }
 
 export interface AnswerQuestionRequest {
   sessionId: string;
   questionId: string;
-  response: boolean | string;
+  response: boolean | string | string[] | number;
 }
 
 export interface RefinePromptRequest {
@@ -78,10 +281,120 @@ export interface RefinePromptRequest {
   model?: string;
 }
 
+// The next question of a session in adaptive mode, generated from the answers so far
+export interface NextQuestionRequest {
+  sessionId: string;
+  // The session's stored answers when omitted
+  answers?: Answer[];
+  // The answered question to follow up on; the last answered question when omitted
+  parentQuestionId?: string;
+  // The session's provider and model when omitted
+  llmProvider?: string;
+  model?: string;
+}
+
+export interface NextQuestionResponse {
+  question: Question;
+  session: RefinementSession;
+  answeredBy: ProviderAttribution;
+}
+
 export interface RefinePromptResponse {
   refinedPrompt: string;
   session: RefinementSession;
   explanation?: string;
+  // Change log, when the provider returned a usable one
+  changes?: PromptChange[];
+  answeredBy?: ProviderAttribution;
+}
+
+// Events sent by POST /api/prompts/refine/stream, one Server-Sent Event per entry
+export type RefinementStreamEvent =
+  | { type: 'token'; token: string }
+  | { type: 'complete'; result: RefinePromptResponse }
+  | { type: 'error'; message: string; code?: string };
+
+// Events sent by POST /api/prompts/create-session/stream: the session first,
+// then each question as soon as it has been generated
+export type CreateSessionStreamEvent =
+  | { type: 'session'; session: RefinementSession }
+  | { type: 'question'; question: Question }
+  | { type: 'complete'; result: CreateSessionResponse }
+  | { type: 'error'; message: string; code?: string };
+
+// Custom system prompts, managed at runtime through /api/prompt-templates
+export type PromptTemplateType = 'generation' | 'refinement';
+
+export interface PromptTemplateVersion {
+  // 1-based position in the template's history
+  version: number;
+  content: string;
+  createdAt: Date;
+  note?: string;
+  // Version whose content was restored
+  restoredFrom?: number;
+}
+
+// Replaces the built-in prompt of one type for a provider, or for one of its models
+export interface PromptTemplate {
+  id: string;
+  type: PromptTemplateType;
+  providerId: string;
+  // Absent when the template applies to every model of the provider
+  model?: string;
+  // The latest version is the one in use
+  content: string;
+  version: number;
+  versions: PromptTemplateVersion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A {{name}} placeholder that templates of a type may (or must) contain
+export interface PromptPlaceholder {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+// Where the prompt for a provider and model comes from, most specific first:
+// a template for the model, one for a model family (by pattern), the provider's, or the base prompt
+export type PromptResolutionLevel = 'model' | 'model-family' | 'provider' | 'base';
+
+// Returned by GET /api/prompt-templates/resolve
+export interface PromptResolution {
+  type: PromptTemplateType;
+  providerId: string;
+  model?: string;
+  level: PromptResolutionLevel;
+  // Custom templates from /api/prompt-templates are checked at every level before the built-in prompts
+  origin: 'custom' | 'built-in';
+  templateId?: string;
+  version?: number;
+  // Model pattern that matched (model-family level)
+  pattern?: string;
+  // The prompt as sent to the model, placeholders filled in
+  content: string;
+}
+
+// Returned by GET /api/prompt-templates/defaults
+export interface PromptTemplateDefaults {
+  placeholders: Record<PromptTemplateType, PromptPlaceholder[]>;
+  // Built-in prompts by provider id; OpenAI-compatible providers use the openai ones
+  builtIn: Record<string, Record<PromptTemplateType, string>>;
+}
+
+export interface CreatePromptTemplateRequest {
+  type: PromptTemplateType;
+  providerId: string;
+  model?: string;
+  content: string;
+  note?: string;
+}
+
+export interface UpdatePromptTemplateRequest {
+  content: string;
+  note?: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -102,6 +415,19 @@ export interface ErrorResponse {
   message: string;
   code?: string;
   details?: ValidationError[];
+  // Set on QUOTA_EXCEEDED errors: the limit that was hit
+  quota?: QuotaStatus;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// Usage of one configured quota limit by the calling client; cost is in USD
+export interface QuotaStatus {
+  period: QuotaPeriod;
+  metric: 'tokens' | 'cost';
+  used: number;
+  limit: number;
+  resetsAt: Date;
 }
 
 export enum LLMProviderType {
@@ -0,0 +1,60 @@
+import { Answer, Question } from '../types';
+
+/**
+ * An answer as it is written into refinement prompts and change logs, e.g. "800 words"
+ * or "Markdown, JSON (chosen from: Markdown, JSON, HTML)"
+ */
+export const formatAnswerResponse = (question: Question, response: Answer['response']): string => {
+  if (typeof response === 'boolean') {
+    // Yes-no answers, and legacy boolean answers to other questions
+    return response ? 'Yes' : 'No';
+  }
+  if (Array.isArray(response)) {
+    // The options left out say as much as the ones picked
+    const chosenFrom = `chosen from: ${question.options.join(', ')}`;
+    return response.length > 0 ? `${response.join(', ')} (${chosenFrom})` : `None (${chosenFrom})`;
+  }
+  if (typeof response === 'number') {
+    return question.range?.unit ? `${response} ${question.range.unit}` : String(response);
+  }
+  return response;
+};
+
+/**
+ * Why a response cannot be an answer to the question, or undefined when it can.
+ * Questions stored before question types existed are single-choice.
+ */
+const findResponseIssue = (question: Question, response: Answer['response']): string | undefined => {
+  switch (question.type ?? 'single-choice') {
+    case 'single-choice':
+      // Besides the options, the user may write their own answer; booleans are legacy answers
+      if (typeof response === 'boolean') return undefined;
+      return typeof response === 'string' && response.trim() ? undefined : 'expected one of the options or a custom answer';
+    case 'multi-select':
+      if (!Array.isArray(response)) return 'expected a list of options';
+      return response.every(option => question.options.includes(option)) ? undefined : 'expected only options of the question';
+    case 'free-text':
+      return typeof response === 'string' && response.trim() ? undefined : 'expected a non-empty text';
+    case 'number-range': {
+      const range = question.range;
+      if (typeof response !== 'number') return 'expected a number';
+      return !range || (response >= range.min && response <= range.max)
+        ? undefined
+        : `expected a number between ${range.min} and ${range.max}`;
+    }
+    case 'yes-no':
+      return typeof response === 'boolean' ? undefined : 'expected true or false';
+  }
+};
+
+/**
+ * Check each answer against the type of the question it answers. Answers to questions
+ * that are not in the list are left alone.
+ */
+export const findAnswerIssues = (questions: Question[], answers: Pick<Answer, 'questionId' | 'response'>[]): string[] =>
+  answers.flatMap(answer => {
+    const question = questions.find(q => q.id === answer.questionId);
+    if (!question) return [];
+    const issue = findResponseIssue(question, answer.response);
+    return issue ? [`Answer to "${question.text}" is invalid: ${issue}`] : [];
+  });
\ No newline at end of file
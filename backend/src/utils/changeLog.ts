@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { Answer, PromptChange, Question } from '../types';
+import { CHANGE_LOG_MARKER } from '../prompts';
+import { describeSchemaIssues } from './questionSchema';
+import { formatAnswerResponse } from './answers';
+
+// Models write the question number as 2, "2" or "Q2", and null for general improvements
+const normalizeQuestionNumber = (value: unknown) => {
+  if (value === null || value === '') return undefined;
+  return typeof value === 'string' ? value.trim().replace(/^q/i, '') : value;
+};
+
+/**
+ * One change log entry as produced by an LLM; the question is its 1-based number in the refinement request
+ */
+const changeLogEntrySchema = z.object({
+  change: z.string().trim().min(1, 'change is required'),
+  reason: z.string().trim().min(1, 'reason is required'),
+  question: z.preprocess(normalizeQuestionNumber, z.coerce.number().int().positive().optional()),
+});
+
+/**
+ * Split a refinement output into the refined prompt and the raw change log that follows the marker, if any
+ */
+export const splitRefinementOutput = (output: string): { prompt: string; changeLog?: string } => {
+  const markerAt = output.indexOf(CHANGE_LOG_MARKER);
+  if (markerAt < 0) {
+    return { prompt: output.trim() };
+  }
+
+  return {
+    prompt: output.slice(0, markerAt).trim(),
+    changeLog: output.slice(markerAt + CHANGE_LOG_MARKER.length),
+  };
+};
+
+const formatAnswer = (question: Question, answer: Answer | undefined): string | undefined =>
+  answer ? formatAnswerResponse(question, answer.response) : undefined;
+
+/**
+ * Validate a raw change log and link each entry to the question and answer it cites.
+ * Invalid entries are dropped; returns undefined when there is no JSON array to read at all.
+ */
+export const parseChangeLog = (
+  changeLog: string,
+  questions: Question[],
+  answers: Answer[]
+): PromptChange[] | undefined => {
+  // Tolerate code fences and stray text around the array
+  const start = changeLog.indexOf('[');
+  const end = changeLog.lastIndexOf(']');
+  if (start < 0 || end < start) {
+    console.warn('Change log has no JSON array; ignoring it');
+    return undefined;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(changeLog.slice(start, end + 1));
+  } catch (error: any) {
+    console.warn(`Change log is not valid JSON (${error.message}); ignoring it`);
+    return undefined;
+  }
+  if (!Array.isArray(entries)) {
+    return undefined;
+  }
+
+  const changes: PromptChange[] = [];
+  entries.forEach((rawEntry, index) => {
+    const result = changeLogEntrySchema.safeParse(rawEntry);
+    if (!result.success) {
+      console.warn(`Rejected change log entry ${index}: ${describeSchemaIssues(result.error)}`);
+      return;
+    }
+
+    const { change, reason, question: questionNumber } = result.data;
+    // A number outside the list is treated like a general improvement
+    const question = questionNumber ? questions[questionNumber - 1] : undefined;
+    changes.push(question
+      ? {
+        change,
+        reason,
+        questionId: question.id,
+        question: question.text,
+        answer: formatAnswer(question, answers.find(a => a.questionId === question.id)),
+      }
+      : { change, reason });
+  });
+
+  return changes;
+};
+
+/**
+ * Separates a streamed refinement into prompt text and change log. push() returns the prompt
+ * text that is safe to pass on: text that could be the start of the marker is held back until
+ * the next chunk shows whether it is.
+ */
+export class ChangeLogSplitter {
+  private pending = '';
+  private rawChangeLog: string | null = null;
+
+  push(chunk: string): string {
+    if (this.rawChangeLog !== null) {
+      this.rawChangeLog += chunk;
+      return '';
+    }
+
+    this.pending += chunk;
+    const markerAt = this.pending.indexOf(CHANGE_LOG_MARKER);
+    if (markerAt >= 0) {
+      const text = this.pending.slice(0, markerAt);
+      this.rawChangeLog = this.pending.slice(markerAt + CHANGE_LOG_MARKER.length);
+      this.pending = '';
+      return text;
+    }
+
+    const held = this.partialMarkerLength();
+    const text = this.pending.slice(0, this.pending.length - held);
+    this.pending = this.pending.slice(this.pending.length - held);
+    return text;
+  }
+
+  /**
+   * Prompt text still held back once the stream has ended
+   */
+  flush(): string {
+    const text = this.pending;
+    this.pending = '';
+    return text;
+  }
+
+  get changeLog(): string | undefined {
+    return this.rawChangeLog ?? undefined;
+  }
+
+  // Length of the longest suffix of the pending text that is a prefix of the marker
+  private partialMarkerLength(): number {
+    for (let length = Math.min(CHANGE_LOG_MARKER.length - 1, this.pending.length); length > 0; length--) {
+      if (this.pending.endsWith(CHANGE_LOG_MARKER.slice(0, length))) {
+        return length;
+      }
+    }
+    return 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { CircuitBreakerOptions, CircuitState, ProviderErrorClass, ProviderHealth } from '../types';
+
+interface CallOutcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Classic closed → open → half-open breaker. Closed lets every call through; open rejects
+ * calls until openDurationMs has passed; half-open lets exactly one trial call through,
+ * which closes the circuit on success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError?: ProviderHealth['lastError'];
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may proceed right now. Callers that get true must report the outcome
+   * through recordSuccess or recordFailure.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.openDurationMs) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.record({ ok: true, latencyMs });
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half-open') {
+      this.state = 'closed';
+      this.outcomes = [];
+    }
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: any, errorClass: ProviderErrorClass, latencyMs: number): void {
+    this.record({ ok: false, latencyMs });
+    this.consecutiveFailures++;
+    this.lastError = {
+      message: error?.message || 'Unknown error occurred',
+      errorClass,
+      at: new Date(),
+    };
+
+    if (this.state === 'half-open' || this.shouldOpen()) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  getRetryInMs(): number {
+    return this.state === 'open'
+      ? Math.max(0, this.openedAt + this.options.openDurationMs - Date.now())
+      : 0;
+  }
+
+  getSnapshot(): ProviderHealth {
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+    const latencies = this.outcomes
+      .filter(outcome => outcome.ok)
+      .map(outcome => outcome.latencyMs)
+      .sort((a, b) => a - b);
+
+    return {
+      circuitState: this.state === 'open' && this.getRetryInMs() === 0 ? 'half-open' : this.state,
+      errorRate: this.outcomes.length > 0 ? failures / this.outcomes.length : 0,
+      sampleSize: this.outcomes.length,
+      latencyP50Ms: percentile(latencies, 0.5),
+      latencyP95Ms: percentile(latencies, 0.95),
+      lastError: this.lastError,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.options.openDurationMs) : undefined,
+    };
+  }
+
+  private record(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private shouldOpen(): boolean {
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      return true;
+    }
+
+    if (this.outcomes.length < Math.ceil(this.options.windowSize / 2)) {
+      return false;
+    }
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+    return failures / this.outcomes.length >= this.options.errorRateThreshold;
+  }
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], fraction: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
\ No newline at end of file
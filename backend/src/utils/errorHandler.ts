@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { ErrorResponse } from '../types';
+import { ErrorResponse, ProviderErrorClass } from '../types';
 
 export interface EnhancedError extends Error {
   status?: number;
@@ -82,6 +82,82 @@ export class RateLimitError extends APIError {
   }
 }
 
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Classify a provider failure so callers can decide whether another attempt
+ * (or another provider) has a chance of succeeding
+ */
+export const classifyProviderError = (error: any): ProviderErrorClass => {
+  // Wrapped provider errors keep the upstream failure in details; that is the more precise signal
+  if (error instanceof ProviderError && error.details) {
+    const upstreamClass = classifyProviderError(error.details);
+    if (upstreamClass !== 'unknown') {
+      return upstreamClass;
+    }
+  }
+
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  const code = error?.code ?? error?.cause?.code;
+  const message: string = error?.message || '';
+
+  if (status === 429 || /rate limit/i.test(message)) {
+    return 'rate_limit';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 408 || code === 'ETIMEDOUT' || code === 'ECONNABORTED' || /timed? ?out/i.test(message)) {
+    return 'timeout';
+  }
+  // Includes Anthropic's 529 "overloaded"
+  if (typeof status === 'number' && status >= 500) {
+    return 'server_error';
+  }
+  if (NETWORK_ERROR_CODES.includes(code) || /unable to connect|socket hang up/i.test(message)) {
+    return 'network';
+  }
+  if (message.includes('parse questions')) {
+    return 'invalid_response';
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return 'validation';
+  }
+  return 'unknown';
+};
+
+/**
+ * Delay requested by the provider through `retry-after-ms` or `Retry-After`
+ * (seconds or an HTTP date), in milliseconds
+ */
+export const getRetryAfterMs = (error: any): number | undefined => {
+  const headers = error?.headers ?? error?.response?.headers ?? error?.details?.headers ?? error?.details?.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined =>
+    typeof headers.get === 'function' ? headers.get(name) ?? undefined : headers[name];
+
+  const retryAfterMs = parseFloat(read('retry-after-ms') || '');
+  if (!Number.isNaN(retryAfterMs)) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
 export const errorLogger = {
   error: (message: string, error?: any, context?: any) => {
     const timestamp = new Date().toISOString();
@@ -0,0 +1,66 @@
+/**
+ * Incremental parser for `{"questions": [ {...}, {...} ]}` responses.
+ * Feed it the token stream chunk by chunk; each call returns the question objects
+ * whose closing brace arrived in that chunk, so callers can use them before the
+ * rest of the JSON has been generated.
+ */
+export class IncrementalQuestionParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private questionsArrayDepth: number | null = null;
+  private objectStart = -1;
+
+  push(chunk: string): any[] {
+    this.buffer += chunk;
+    const completed: any[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+        if (char === '[' && this.questionsArrayDepth === null && this.isQuestionsKeyBefore(this.position)) {
+          this.questionsArrayDepth = this.depth;
+        } else if (char === '{' && this.questionsArrayDepth !== null && this.depth === this.questionsArrayDepth + 1) {
+          this.objectStart = this.position;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && this.objectStart >= 0 && this.depth === this.questionsArrayDepth! + 1) {
+          const rawQuestion = this.buffer.slice(this.objectStart, this.position + 1);
+          try {
+            completed.push(JSON.parse(rawQuestion));
+          } catch (error) {
+            console.warn('Skipping unparseable streamed question:', rawQuestion.substring(0, 200));
+          }
+          this.objectStart = -1;
+        } else if (char === ']' && this.depth === this.questionsArrayDepth) {
+          this.questionsArrayDepth = null;
+        }
+        this.depth--;
+      }
+    }
+
+    return completed;
+  }
+
+  private isQuestionsKeyBefore(position: number): boolean {
+    const preceding = this.buffer.slice(Math.max(0, position - 64), position);
+    return /"questions"\s*:\s*$/.test(preceding);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { NumberRange, Question, QuestionCategory, QuestionType } from '../types';
+import config from '../config';
+
+export const QUESTION_IMPACTS = ['high', 'medium', 'low'] as const;
+
+export const QUESTION_TYPES = ['single-choice', 'multi-select', 'free-text', 'number-range', 'yes-no'] as const;
+
+// Models sometimes capitalise enum values ("High"); that much is safe to repair
+const normalizeEnumValue = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+/**
+ * The configured categories with the given ids, in taxonomy order; every category when no ids are given
+ */
+export const resolveQuestionCategories = (ids?: string[]): QuestionCategory[] =>
+  ids && ids.length > 0
+    ? config.questionCategories.filter(category => ids.includes(category.id))
+    : config.questionCategories;
+
+export const isKnownQuestionCategory = (id: string): boolean =>
+  config.questionCategories.some(category => category.id === id);
+
+// Models write "Yes/No", "free_text" or "Multi Select"; map those spellings onto the question types
+const normalizeQuestionType = (value: unknown) => {
+  if (value === null || value === '') return undefined;
+  const type = normalizeEnumValue(value);
+  return typeof type === 'string' ? type.replace(/[\s_/]+/g, '-') : type;
+};
+
+const numberRangeSchema = z.object({
+  min: z.coerce.number().finite(),
+  max: z.coerce.number().finite(),
+  step: z.coerce.number().positive().nullish(),
+  unit: z.string().trim().nullish().transform(unit => unit || undefined),
+  defaultValue: z.coerce.number().finite().nullish(),
+}).refine(range => range.min < range.max, {
+  message: 'min must be less than max',
+  path: ['max'],
+}).refine(range => range.defaultValue == null || (range.defaultValue >= range.min && range.defaultValue <= range.max), {
+  message: 'defaultValue must be between min and max',
+  path: ['defaultValue'],
+}).transform((range): NumberRange => {
+  const step = range.step || 1;
+  return {
+    min: range.min,
+    max: range.max,
+    step,
+    unit: range.unit,
+    // Without a default the slider starts in the middle, on a step
+    defaultValue: range.defaultValue ?? range.min + Math.round((range.max - range.min) / 2 / step) * step,
+  };
+});
+
+// Types whose defaultOption picks one of the options
+const hasDefaultOption = (type: QuestionType) => type === 'single-choice' || type === 'yes-no';
+
+/**
+ * A question as produced by an LLM: Question minus the id and order the server assigns.
+ * Every provider's output is validated against this schema, whatever mode it was generated in;
+ * the category must be one of those the questions were asked for. Questions without a type
+ * (templates written before question types) are single-choice.
+ */
+export const createGeneratedQuestionSchema = (categories: string[]) => z.object({
+  text: z.string().trim().min(1, 'Question text is required'),
+  type: z.preprocess(normalizeQuestionType, z.enum(QUESTION_TYPES).default('single-choice')),
+  category: z.preprocess(normalizeEnumValue, z.enum(categories as [string, ...string[]])),
+  impact: z.preprocess(normalizeEnumValue, z.enum(QUESTION_IMPACTS)),
+  explanation: z.string().nullish().transform(explanation => explanation || undefined),
+  options: z.array(z.string().trim().min(1, 'Options must not be empty'))
+    .max(8, 'At most 8 options are allowed')
+    .nullish()
+    .transform(options => options || []),
+  defaultOption: z.coerce.number().int().nonnegative().nullish().transform(index => index ?? 0),
+  range: numberRangeSchema.nullish(),
+}).superRefine((question, ctx) => {
+  const addIssue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (question.type === 'single-choice' || question.type === 'multi-select') {
+    if (question.options.length < 2) {
+      addIssue('options', `At least 2 options are required for ${question.type} questions`);
+    }
+    if (question.type === 'single-choice' && question.options.length > 6) {
+      addIssue('options', 'At most 6 options are allowed for single-choice questions');
+    }
+  }
+  if (question.type === 'yes-no' && question.options.length !== 0 && question.options.length !== 2) {
+    addIssue('options', 'yes-no questions have exactly 2 options (the yes and the no label) or none');
+  }
+  if (question.type === 'number-range' && !question.range) {
+    addIssue('range', 'number-range questions need a range');
+  }
+  if (hasDefaultOption(question.type) && question.defaultOption >= (question.options.length || 2)) {
+    addIssue('defaultOption', 'defaultOption must be the index of one of the options');
+  }
+}).transform(({ range, ...question }): Omit<Question, 'id' | 'order'> => {
+  // Drop what does not apply to the type, so every stored question has the same shape
+  const options = question.type === 'yes-no' && question.options.length === 0
+    ? ['Yes', 'No']
+    : question.type === 'free-text' || question.type === 'number-range' ? [] : question.options;
+
+  return {
+    ...question,
+    options,
+    defaultOption: hasDefaultOption(question.type) ? question.defaultOption : 0,
+    range: question.type === 'number-range' && range ? range : undefined,
+  };
+});
+
+export type GeneratedQuestion = z.infer<ReturnType<typeof createGeneratedQuestionSchema>>;
+
+/**
+ * JSON Schema of the `{ "questions": [...] }` payload, for providers that constrain output natively
+ * (OpenAI json_schema, Anthropic tool input). Written to the subset accepted by OpenAI strict mode:
+ * every property required, no additional properties.
+ */
+export const createQuestionsJsonSchema = (categories: string[]) => ({
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: 'The question to ask the user' },
+          type: { type: 'string', enum: [...QUESTION_TYPES] },
+          category: { type: 'string', enum: categories },
+          impact: { type: 'string', enum: [...QUESTION_IMPACTS] },
+          explanation: { type: 'string', description: 'Why the answer matters for the prompt' },
+          options: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Answer options of single-choice and multi-select questions, ordered from one extreme to the other; the yes and no labels of yes-no questions; empty otherwise',
+          },
+          defaultOption: {
+            type: 'integer',
+            description: 'Zero-based index of the default option of single-choice and yes-no questions; 0 otherwise',
+          },
+          range: {
+            anyOf: [
+              {
+                type: 'object',
+                description: 'Bounds of a number-range question',
+                properties: {
+                  min: { type: 'number' },
+                  max: { type: 'number' },
+                  step: { type: 'number' },
+                  unit: { type: ['string', 'null'], description: 'e.g. "words"' },
+                  defaultValue: { type: 'number' },
+                },
+                required: ['min', 'max', 'step', 'unit', 'defaultValue'],
+                additionalProperties: false,
+              },
+              { type: 'null' },
+            ],
+          },
+        },
+        required: ['text', 'type', 'category', 'impact', 'explanation', 'options', 'defaultOption', 'range'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['questions'],
+  additionalProperties: false,
+});
+
+export const describeSchemaIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { PromptRevision } from '../types';
+
+/**
+ * The version a new revision gets: one past the latest, so versions are never reused
+ */
+export const nextRevisionVersion = (revisions: PromptRevision[]): number =>
+  revisions.reduce((latest, revision) => Math.max(latest, revision.version), 0) + 1;
@@ -0,0 +1,99 @@
+import { Response } from 'express';
+
+/**
+ * Yield the `data:` payload of every Server-Sent Event in an HTTP response stream
+ * (used for providers we call through axios with responseType 'stream')
+ */
+export async function* readServerSentEvents(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk.toString();
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        yield data;
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+/**
+ * Yield the text deltas of an OpenAI-style chat completion stream. The usage chunk, sent last
+ * when the request sets stream_options.include_usage, is passed to onUsage.
+ */
+export async function* chatCompletionTokens(
+  stream: AsyncIterable<{
+    choices: Array<{ delta?: { content?: string | null } }>;
+    usage?: { prompt_tokens: number; completion_tokens: number } | null;
+  }>,
+  onUsage?: (usage: { prompt_tokens: number; completion_tokens: number }) => void
+): AsyncGenerator<string> {
+  for await (const chunk of stream) {
+    // Groq reports stream usage under x_groq instead
+    const usage = chunk.usage || (chunk as any).x_groq?.usage;
+    if (usage) {
+      onUsage?.(usage);
+    }
+
+    const token = chunk.choices[0]?.delta?.content;
+    if (token) {
+      yield token;
+    }
+  }
+}
+
+/**
+ * Yield every parsed line of a newline-delimited JSON stream (Ollama's streaming format)
+ */
+export async function* readJsonLines<T = any>(stream: AsyncIterable<Buffer | string>): AsyncGenerator<T> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk.toString();
+
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        yield JSON.parse(line) as T;
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer) as T;
+  }
+}
+
+/**
+ * Prepare an Express response for Server-Sent Events
+ */
+export const openEventStream = (res: Response): void => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+};
+
+/**
+ * Write one named event; flushes through the compression middleware so tokens are not buffered
+ */
+export const writeServerSentEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  res.flush?.();
+};
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { DiffSegment } from '../types';
+
+// Words, runs of whitespace and single punctuation marks, so a changed comma does not mark the whole word
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Longest common subsequence lengths of a[aLo..aHi) with every prefix of b[bLo..bHi), in one row
+ */
+const prefixLengths = (a: Uint32Array, aLo: number, aHi: number, b: Uint32Array, bLo: number, bHi: number): Uint32Array => {
+  const row = new Uint32Array(bHi - bLo + 1);
+  for (let i = aLo; i < aHi; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= bHi - bLo; j++) {
+      const above = row[j];
+      row[j] = a[i] === b[bLo + j - 1] ? diagonal + 1 : Math.max(above, row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row;
+};
+
+/**
+ * Longest common subsequence lengths of a[aLo..aHi) with every suffix of b[bLo..bHi), in one row
+ */
+const suffixLengths = (a: Uint32Array, aLo: number, aHi: number, b: Uint32Array, bLo: number, bHi: number): Uint32Array => {
+  const n = bHi - bLo;
+  const row = new Uint32Array(n + 1);
+  for (let i = aHi - 1; i >= aLo; i--) {
+    let diagonal = 0;
+    for (let j = n - 1; j >= 0; j--) {
+      const below = row[j];
+      row[j] = a[i] === b[bLo + j] ? diagonal + 1 : Math.max(below, row[j + 1]);
+      diagonal = below;
+    }
+  }
+  return row;
+};
+
+/**
+ * Hirschberg's divide and conquer LCS: split `a` in half, find where the best alignment crosses
+ * into `b`, and diff both halves. Memory stays linear in the token count instead of their product.
+ */
+const diffRange = (
+  tokensA: string[], a: Uint32Array, aLo: number, aHi: number,
+  tokensB: string[], b: Uint32Array, bLo: number, bHi: number,
+  segments: DiffSegment[]
+): void => {
+  if (aLo === aHi) {
+    if (bLo < bHi) pushSegment(segments, 'insert', tokensB.slice(bLo, bHi).join(''));
+    return;
+  }
+  if (bLo === bHi) {
+    pushSegment(segments, 'delete', tokensA.slice(aLo, aHi).join(''));
+    return;
+  }
+  if (aHi - aLo === 1) {
+    const match = b.subarray(bLo, bHi).indexOf(a[aLo]);
+    if (match === -1) {
+      // Deletions before insertions, so a replaced word reads "old" then "new"
+      pushSegment(segments, 'delete', tokensA[aLo]);
+      pushSegment(segments, 'insert', tokensB.slice(bLo, bHi).join(''));
+      return;
+    }
+    if (match > 0) pushSegment(segments, 'insert', tokensB.slice(bLo, bLo + match).join(''));
+    pushSegment(segments, 'equal', tokensA[aLo]);
+    if (bLo + match + 1 < bHi) pushSegment(segments, 'insert', tokensB.slice(bLo + match + 1, bHi).join(''));
+    return;
+  }
+
+  const mid = (aLo + aHi) >> 1;
+  const before = prefixLengths(a, aLo, mid, b, bLo, bHi);
+  const after = suffixLengths(a, mid, aHi, b, bLo, bHi);
+  let split = 0;
+  for (let k = 1; k <= bHi - bLo; k++) {
+    if (before[k] + after[k] > before[split] + after[split]) split = k;
+  }
+
+  diffRange(tokensA, a, aLo, mid, tokensB, b, bLo, bLo + split, segments);
+  diffRange(tokensA, a, mid, aHi, tokensB, b, bLo + split, bHi, segments);
+};
+
+/**
+ * Word-level diff of two texts as runs of equal, inserted and deleted text, in reading order.
+ * Joining the equal and delete runs gives `before`; joining the equal and insert runs gives `after`.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const tokensA = tokenize(before);
+  const tokensB = tokenize(after);
+
+  // The common prefix and suffix need no alignment; prompt revisions usually share most of both
+  let start = 0;
+  while (start < tokensA.length && start < tokensB.length && tokensA[start] === tokensB[start]) start++;
+  let endA = tokensA.length;
+  let endB = tokensB.length;
+  while (endA > start && endB > start && tokensA[endA - 1] === tokensB[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // Compare numeric token ids rather than strings in the inner loops
+  const ids = new Map<string, number>();
+  const toIds = (tokens: string[]) => Uint32Array.from(tokens, token => {
+    let id = ids.get(token);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(token, id);
+    }
+    return id;
+  });
+  const a = toIds(tokensA);
+  const b = toIds(tokensB);
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) {
+    pushSegment(segments, 'equal', tokensA.slice(0, start).join(''));
+  }
+
+  diffRange(tokensA, a, start, endA, tokensB, b, start, endB, segments);
+
+  if (endA < tokensA.length) {
+    pushSegment(segments, 'equal', tokensA.slice(endA).join(''));
+  }
+
+  return segments;
+};
@@ -1,5 +1,6 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { HomePage } from './pages/HomePage'
+import { PromptTemplatesPage } from './pages/PromptTemplatesPage'
 
 function App() {
   return (
@@ -7,6 +8,7 @@ function App() {
       <div className="min-h-screen bg-white">
         <Routes>
           <Route path="/" element={<HomePage />} />
+          <Route path="/admin/prompts" element={<PromptTemplatesPage />} />
         </Routes>
       </div>
     </Router>
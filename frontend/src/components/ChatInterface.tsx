@@ -1,12 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Send, Loader2, Copy, Edit3, Save, X, Download, FileText, Bookmark, Undo, RotateCcw } from 'lucide-react';
+import { Send, Loader2, Copy, Edit3, Save, X, Download, FileText, Bookmark, Undo, RotateCcw, GitCompare } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { apiService } from '../services/api';
+import { apiService, isQuotaExceededError } from '../services/api';
 import { useRefinementStore } from '../store/refinementStore';
 import { SingleQuestionView } from './SingleQuestionView';
 import { LLMErrorModal } from './LLMErrorModal';
+import { PromptDiffViewer, PromptDiffTarget } from './PromptDiffViewer';
+import { PromptChangeLog } from './PromptChangeLog';
+import { QuestionCategoryFilter } from './QuestionCategoryFilter';
+import { ProviderAttribution, UsageTotals } from '../types';
+
+const formatCost = (usage: UsageTotals) => {
+  const cost = usage.cost < 0.01 ? usage.cost.toFixed(4) : usage.cost.toFixed(2);
+  // Calls to models without a configured price are not in the total
+  return usage.unpricedCalls > 0 ? `≥ $${cost}` : `$${cost}`;
+};
 
 export const ChatInterface: React.FC = () => {
   const [prompt, setPrompt] = useState('');
@@ -14,6 +24,9 @@ export const ChatInterface: React.FC = () => {
   const [isEditingPrompt, setIsEditingPrompt] = useState(false);
   const [editedPrompt, setEditedPrompt] = useState('');
   const [showStartOverConfirm, setShowStartOverConfirm] = useState(false);
+  const [streamingPrompt, setStreamingPrompt] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const [diffTargetId, setDiffTargetId] = useState<string | undefined>();
   const [providers, setProviders] = useState<Array<{ id: string; name: string; isAvailable: boolean }>>([]);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -23,11 +36,16 @@ export const ChatInterface: React.FC = () => {
     answers,
     selectedProvider,
     selectedModel,
+    selectedLanguage,
+    selectedCategories,
+    adaptiveQuestions,
     llmError,
     answeredCount,
     canRollback,
     promptVersions,
     setSession,
+    setSelectedCategories,
+    setAdaptiveQuestions,
     setQuestions,
     addQuestions,
     setAnswers,
@@ -43,6 +61,13 @@ export const ChatInterface: React.FC = () => {
     reset
   } = useRefinementStore();
 
+  // Let the user know when the failover chain answered instead of the selected provider
+  const notifyFailover = (answeredBy?: ProviderAttribution) => {
+    if (answeredBy?.failedOver) {
+      toast(`${selectedProvider} was unavailable, so ${answeredBy.llmProvider} answered instead`, { icon: '🔀' });
+    }
+  };
+
   const createSessionMutation = useMutation({
     mutationFn: async (promptText: string) => {
       if (!promptText.trim()) {
@@ -60,22 +85,47 @@ export const ChatInterface: React.FC = () => {
         throw new Error(`Provider '${selectedProvider}' is not available. Please select a different provider.`);
       }
 
-      return apiService.createSession({
-        originalPrompt: promptText.trim(),
-        llmProvider: selectedProvider,
-        model: selectedModel,
-      });
+      // Questions are added to the store as they stream in, so the first card shows up
+      // while the rest are still being generated
+      return apiService.createSessionStream(
+        {
+          originalPrompt: promptText.trim(),
+          llmProvider: selectedProvider,
+          model: selectedModel,
+          language: selectedLanguage,
+          categories: selectedCategories,
+        },
+        {
+          onSession: (newSession) => {
+            setSession(newSession);
+            setQuestions([]);
+            setCurrentQuestionIndex(0);
+          },
+          onQuestion: (question) => addQuestions([question]),
+        }
+      );
     },
     onSuccess: (data) => {
       setSession(data.session);
-      setQuestions(data.questions);
       setIsTyping(false);
       toast.success('Questions generated successfully!');
+      notifyFailover(data.answeredBy);
     },
     onError: (error: any) => {
       const message = error.response?.data?.message || error.message || 'Failed to create session';
       setIsTyping(false);
       
+      if (isQuotaExceededError(error)) {
+        setLLMError({
+          message,
+          provider: selectedProvider,
+          model: selectedModel,
+          type: 'quota_exceeded',
+          quota: error.response.data.quota,
+        });
+        return;
+      }
+
       // Check if this is an LLM-related error
       const isLLMError = message.includes('API key') || 
                         message.includes('rate limit') || 
@@ -122,7 +172,8 @@ export const ChatInterface: React.FC = () => {
       return apiService.generateQuestions(
         session.refinedPrompt || session.originalPrompt,
         selectedProvider || 'groq',
-        selectedModel
+        selectedModel,
+        { language: session.language, tone: session.tone, categories: session.categories }
       );
     },
     onSuccess: (newQuestions) => {
@@ -136,6 +187,42 @@ export const ChatInterface: React.FC = () => {
     },
   });
 
+  const nextQuestionMutation = useMutation({
+    mutationFn: async (parentQuestionId: string) => {
+      if (!session) throw new Error('No session found');
+
+      // Read from the store: the answer that triggered this was saved after the last render
+      return apiService.getNextQuestion(session.id, {
+        answers: useRefinementStore.getState().answers,
+        parentQuestionId,
+        llmProvider: selectedProvider,
+        model: selectedModel,
+      });
+    },
+    onSuccess: (data) => {
+      const { questions: currentQuestions, currentQuestionIndex } = useRefinementStore.getState();
+      addQuestions([data.question]);
+      setSession(data.session);
+      // Someone waiting on the last card moves on to the follow-up
+      if (currentQuestionIndex === currentQuestions.length - 1) {
+        setCurrentQuestionIndex(currentQuestions.length);
+      }
+      notifyFailover(data.answeredBy);
+    },
+    onError: (error: any) => {
+      console.error('Failed to generate a follow-up question:', error);
+      toast.error(error.message || 'Failed to generate a follow-up question');
+    },
+  });
+
+  // One follow-up per question, even when its answer is changed later
+  const handleFollowUp = (questionId: string) => {
+    if (nextQuestionMutation.isPending || questions.some(q => q.parentQuestionId === questionId)) {
+      return;
+    }
+    nextQuestionMutation.mutate(questionId);
+  };
+
   const refinePromptMutation = useMutation({
     mutationFn: async () => {
       if (!session) throw new Error('No session found');
@@ -161,25 +248,46 @@ export const ChatInterface: React.FC = () => {
         model: selectedModel 
       });
       
-      return apiService.refinePrompt({
-        sessionId: session.id,
-        answers: answers,
-        llmProvider: selectedProvider,
-        model: selectedModel,
-      });
+      setStreamingPrompt('');
+      return apiService.refinePromptStream(
+        {
+          sessionId: session.id,
+          answers: answers,
+          llmProvider: selectedProvider,
+          model: selectedModel,
+        },
+        (token) => setStreamingPrompt((current) => current + token)
+      );
     },
     onSuccess: (data) => {
+      setStreamingPrompt('');
       setSession(data.session);
       setQuestions(data.session.questions);
       setAnswers([]);
       setCurrentQuestionIndex(0);
       setAutoSubmitting(false);
+      // Show what the refinement changed
+      setDiffTargetId(undefined);
+      setShowDiff(true);
       toast.success('Prompt refined successfully! New questions generated.');
+      notifyFailover(data.answeredBy);
     },
     onError: (error: any) => {
       setAutoSubmitting(false);
+      setStreamingPrompt('');
       const message = error.response?.data?.message || error.message || 'Failed to refine prompt';
       
+      if (isQuotaExceededError(error)) {
+        setLLMError({
+          message,
+          provider: selectedProvider,
+          model: selectedModel,
+          type: 'quota_exceeded',
+          quota: error.response.data.quota,
+        });
+        return;
+      }
+
       // Check if this is an LLM-related error
       const isLLMError = message.includes('API key') || 
                         message.includes('rate limit') || 
@@ -322,16 +430,16 @@ export const ChatInterface: React.FC = () => {
     setEditedPrompt(latestPrompt);
   };
 
-  const handleSavePrompt = () => {
+  const handleSavePrompt = async () => {
     if (session) {
-      // Save the edited content as the new refined prompt (latest version)
-      setSession({ 
-        ...session, 
-        refinedPrompt: editedPrompt,
-        updatedAt: new Date()
-      });
-      setIsEditingPrompt(false);
-      toast.success('Prompt updated!');
+      try {
+        // Save the edited content as the new refined prompt (latest version), recorded in the session's history
+        setSession(await apiService.savePromptEdit(session.id, editedPrompt));
+        setIsEditingPrompt(false);
+        toast.success('Prompt updated!');
+      } catch (error: any) {
+        toast.error(error.message || 'Failed to save prompt');
+      }
     }
   };
 
@@ -407,6 +515,33 @@ export const ChatInterface: React.FC = () => {
     }
   };
 
+  // Versions the current prompt can be compared with, the previous one first
+  const getDiffTargets = (): PromptDiffTarget[] => {
+    if (!session) return [];
+
+    const targets: PromptDiffTarget[] = [];
+    const previous = session.revisions[session.revisions.length - 2];
+    if (previous) {
+      targets.push({ id: `revision-${previous.version}`, label: `Previous version (v${previous.version})`, text: previous.prompt });
+    }
+    targets.push({ id: 'original', label: 'Original prompt', text: session.originalPrompt });
+    promptVersions.forEach((version) => {
+      targets.push({ id: version.id, label: `Saved v${version.versionNumber}`, text: version.content });
+    });
+    return targets;
+  };
+
+  // Change log of the refinement that produced the current prompt, while that prompt is still current
+  const latestRevision = session?.revisions[session.revisions.length - 1];
+  const currentChanges = latestRevision?.source === 'refine' && latestRevision.prompt === session?.refinedPrompt
+    ? latestRevision.changes
+    : undefined;
+
+  const handleCompare = (targetId?: string) => {
+    setDiffTargetId(targetId);
+    setShowDiff(targetId !== undefined || !showDiff);
+  };
+
   const handleStartOver = () => {
     setShowStartOverConfirm(true);
   };
@@ -416,6 +551,7 @@ export const ChatInterface: React.FC = () => {
     setPrompt('');
     setIsEditingPrompt(false);
     setEditedPrompt('');
+    setShowDiff(false);
     setShowStartOverConfirm(false);
     toast.success('Started over! Provider and model settings preserved.');
   };
@@ -447,7 +583,9 @@ export const ChatInterface: React.FC = () => {
     setLLMError(null);
   };
 
-  const allQuestionsAnswered = questions.every(q => 
+  const isGeneratingMoreQuestions = (createSessionMutation.isPending && questions.length > 0) || nextQuestionMutation.isPending;
+
+  const allQuestionsAnswered = !isGeneratingMoreQuestions && questions.every(q => 
     answers.some(a => a.questionId === q.id)
   );
 
@@ -489,6 +627,19 @@ export const ChatInterface: React.FC = () => {
                     >
                       <Edit3 className="h-4 w-4" />
                     </button>
+                    {session.refinedPrompt && (
+                      <button
+                        onClick={() => handleCompare()}
+                        className={`p-2 transition-colors rounded-md border ${
+                          showDiff
+                            ? 'text-white bg-gray-800 border-gray-800'
+                            : 'text-gray-600 hover:text-black border-gray-100 bg-white hover:bg-gray-50'
+                        }`}
+                        title={showDiff ? 'Hide changes' : 'Compare with earlier versions'}
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </button>
+                    )}
                     <button
                       onClick={handleSaveVersion}
                       className="p-2 text-blue-600 hover:text-blue-800 transition-colors rounded-md border border-blue-100 bg-blue-50 hover:bg-blue-100"
@@ -559,9 +710,24 @@ export const ChatInterface: React.FC = () => {
                   <div className="text-sm text-blue-700 font-medium">
                     🔄 Auto-refining your prompt...
                   </div>
+                  {streamingPrompt && (
+                    <p className="text-gray-700 text-sm whitespace-pre-wrap mt-2" aria-live="polite">
+                      {streamingPrompt}
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-blue-400 animate-pulse" />
+                    </p>
+                  )}
                 </div>
               )}
-              {session?.refinedPrompt && (
+              {session?.refinedPrompt && showDiff && (
+                <PromptDiffViewer
+                  key={`${session.revisions.length}-${diffTargetId}`}
+                  current={session.refinedPrompt}
+                  targets={getDiffTargets()}
+                  initialTargetId={diffTargetId}
+                  onClose={() => setShowDiff(false)}
+                />
+              )}
+              {session?.refinedPrompt && !showDiff && (
                 <div className="bg-gray-50 rounded-lg p-4 border border-gray-100">
                   <div className="flex items-center gap-2 mb-2">
                     <span className="text-black font-medium text-sm">✨ Refined Prompt</span>
@@ -572,6 +738,9 @@ export const ChatInterface: React.FC = () => {
                   </p>
                 </div>
               )}
+              {currentChanges && currentChanges.length > 0 && (
+                <PromptChangeLog changes={currentChanges} />
+              )}
               <div className="bg-white rounded-lg p-4 border border-gray-100">
                 <div className="flex items-center gap-2 mb-2">
                   <span className="text-gray-600 font-medium text-sm">📝 Original Prompt</span>
@@ -581,6 +750,20 @@ export const ChatInterface: React.FC = () => {
                 </p>
               </div>
 
+              {session.usage && session.usage.calls > 0 && (
+                <div
+                  className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500"
+                  title={session.usage.unpricedCalls > 0
+                    ? `${session.usage.unpricedCalls} call(s) used models without a configured price`
+                    : undefined}
+                >
+                  <span>💰 {formatCost(session.usage)}</span>
+                  <span>{session.usage.inputTokens.toLocaleString()} input tokens</span>
+                  <span>{session.usage.outputTokens.toLocaleString()} output tokens</span>
+                  <span>{session.usage.calls} LLM calls</span>
+                </div>
+              )}
+
               {/* Saved Prompts Section */}
               {promptVersions.length > 0 && (
                 <div className="mt-6">
@@ -593,6 +776,16 @@ export const ChatInterface: React.FC = () => {
                           <span className="text-xs text-gray-500">
                             {new Date(version.timestamp).toLocaleDateString()} {new Date(version.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                           </span>
+                          {session.refinedPrompt && (
+                            <button
+                              onClick={() => handleCompare(version.id)}
+                              className="ml-auto text-xs text-blue-700 hover:text-blue-900 flex items-center gap-1"
+                              title="Compare with the current prompt"
+                            >
+                              <GitCompare className="h-3 w-3" />
+                              Compare
+                            </button>
+                          )}
                         </div>
                         <p className="text-gray-700 text-sm whitespace-pre-wrap line-clamp-3">
                           {version.content}
@@ -635,6 +828,20 @@ export const ChatInterface: React.FC = () => {
                   </span>
                 )}
               </div>
+              <QuestionCategoryFilter
+                selectedCategories={selectedCategories}
+                onChange={setSelectedCategories}
+                disabled={createSessionMutation.isPending}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={adaptiveQuestions}
+                  onChange={(e) => setAdaptiveQuestions(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Ask follow-up questions based on my answers
+              </label>
               <button
                 type="submit"
                 disabled={createSessionMutation.isPending || !prompt.trim() || prompt.length < 10}
@@ -668,7 +875,7 @@ export const ChatInterface: React.FC = () => {
               Refinement Questions
             </h3>
             
-            {isTyping || createSessionMutation.isPending ? (
+            {isTyping || (createSessionMutation.isPending && questions.length === 0) ? (
               <div className="flex-1 flex items-center justify-center">
                 <div className="text-center">
                   <Loader2 className="h-8 w-8 animate-spin text-gray-400 mx-auto mb-3" />
@@ -687,8 +894,18 @@ export const ChatInterface: React.FC = () => {
                   </div>
                 )}
                 <div className="flex-1 overflow-y-auto">
-                  <SingleQuestionView onAutoSubmit={handleAutoSubmit} />
+                  <SingleQuestionView
+                    onAutoSubmit={handleAutoSubmit}
+                    isGeneratingMore={isGeneratingMoreQuestions}
+                    onFollowUp={adaptiveQuestions ? handleFollowUp : undefined}
+                  />
                 </div>
+                {isGeneratingMoreQuestions && (
+                  <div className="flex items-center justify-center space-x-2 mt-4 text-xs text-gray-500">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    <span>{nextQuestionMutation.isPending ? 'Generating a follow-up question...' : 'Generating more questions...'}</span>
+                  </div>
+                )}
               </>
             ) : (
               <div className="flex-1 flex items-center justify-center">
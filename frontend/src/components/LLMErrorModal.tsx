@@ -1,6 +1,13 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, X, RefreshCw, Settings, ChevronDown, ChevronRight } from 'lucide-react';
+import { QuotaStatus } from '../types';
+
+// e.g. "$4.98 of $5.00 daily budget" or "98,000 of 100,000 monthly tokens"
+const formatQuotaUsage = (quota: QuotaStatus) =>
+  quota.metric === 'cost'
+    ? `$${quota.used.toFixed(2)} of $${quota.limit.toFixed(2)} ${quota.period} budget`
+    : `${quota.used.toLocaleString()} of ${quota.limit.toLocaleString()} ${quota.period} tokens`;
 
 interface LLMErrorModalProps {
   isOpen: boolean;
@@ -10,7 +17,8 @@ interface LLMErrorModalProps {
     provider: string;
     model?: string;
     details?: string;
-    type?: 'api_error' | 'auth_error' | 'rate_limit' | 'model_error' | 'network_error' | 'unknown';
+    type?: 'api_error' | 'auth_error' | 'rate_limit' | 'model_error' | 'network_error' | 'quota_exceeded' | 'unknown';
+    quota?: QuotaStatus;
   };
   onRetry: () => void;
   onSwitchProvider: () => void;
@@ -29,6 +37,9 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
 
   if (!isOpen) return null;
 
+  // Switching provider or retrying cannot help until the quota resets
+  const isQuotaError = error.type === 'quota_exceeded';
+
   const getErrorIcon = () => {
     switch (error.type) {
       case 'auth_error':
@@ -39,6 +50,8 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
         return '🌐';
       case 'model_error':
         return '🤖';
+      case 'quota_exceeded':
+        return '💳';
       default:
         return '⚠️';
     }
@@ -54,6 +67,8 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
         return 'Network Connection Issue';
       case 'model_error':
         return 'Model Unavailable';
+      case 'quota_exceeded':
+        return 'Usage Quota Reached';
       default:
         return 'AI Provider Error';
     }
@@ -69,6 +84,10 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
         return 'Unable to connect to the AI provider. Please check your internet connection.';
       case 'model_error':
         return `The selected model "${error.model}" is not available or supported by ${error.provider}.`;
+      case 'quota_exceeded':
+        return error.quota
+          ? `You have used ${formatQuotaUsage(error.quota)}. The quota resets ${new Date(error.quota.resetsAt).toLocaleString()}.`
+          : 'You have used up your usage quota.';
       default:
         return 'An unexpected error occurred while generating questions. This might be a temporary issue.';
     }
@@ -100,6 +119,11 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
           'Switch to a different provider',
           'Check if the model name is correct',
         ];
+      case 'quota_exceeded':
+        return [
+          'Wait until the quota resets',
+          'Ask your administrator to raise your quota',
+        ];
       default:
         return [
           'Try again in a few moments',
@@ -109,7 +133,7 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
     }
   };
 
-  const availableAlternatives = availableProviders.filter(
+  const availableAlternatives = isQuotaError ? [] : availableProviders.filter(
     p => p.isAvailable && p.id !== error.provider
   );
 
@@ -238,13 +262,15 @@ export const LLMErrorModal: React.FC<LLMErrorModalProps> = ({
                 <span>Switch Provider</span>
               </button>
             )}
-            <button
-              onClick={onRetry}
-              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors flex items-center space-x-2"
-            >
-              <RefreshCw className="h-4 w-4" />
-              <span>Retry</span>
-            </button>
+            {!isQuotaError && (
+              <button
+                onClick={onRetry}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors flex items-center space-x-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>Retry</span>
+              </button>
+            )}
           </div>
         </motion.div>
       </div>
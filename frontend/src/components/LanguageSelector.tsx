@@ -0,0 +1,57 @@
+import React from 'react';
+import { ChevronDown, Languages } from 'lucide-react';
+
+// Sent as-is to the backend, which writes it into the prompts
+const LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Polish',
+  'Russian',
+  'Ukrainian',
+  'Turkish',
+  'Arabic',
+  'Hindi',
+  'Chinese',
+  'Japanese',
+  'Korean',
+];
+
+interface LanguageSelectorProps {
+  // Undefined follows the language of the prompt
+  selectedLanguage?: string;
+  onLanguageChange: (language?: string) => void;
+  disabled?: boolean;
+}
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
+  selectedLanguage,
+  onLanguageChange,
+  disabled = false,
+}) => (
+  <div className="flex items-center gap-2">
+    <Languages className="h-4 w-4 text-primary-600" />
+    <div className="relative w-full sm:w-auto min-w-[120px]">
+      <select
+        value={selectedLanguage || ''}
+        onChange={(e) => onLanguageChange(e.target.value || undefined)}
+        disabled={disabled}
+        title="Language of the questions and the refined prompt"
+        aria-label="Language"
+        className="appearance-none bg-white border border-gray-300 rounded-md pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed w-full"
+      >
+        <option value="">Same as prompt</option>
+        {LANGUAGES.map((language) => (
+          <option key={language} value={language}>
+            {language}
+          </option>
+        ))}
+      </select>
+      <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+    </div>
+  </div>
+);
\ No newline at end of file
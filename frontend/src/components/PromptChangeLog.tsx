@@ -0,0 +1,35 @@
+import React from 'react';
+import { PromptChange } from '../types';
+
+interface PromptChangeLogProps {
+  changes: PromptChange[];
+}
+
+export const PromptChangeLog: React.FC<PromptChangeLogProps> = ({ changes }) => (
+  <div className="bg-white rounded-lg p-4 border border-gray-100">
+    <div className="flex items-center gap-2 mb-3">
+      <span className="text-black font-medium text-sm">📋 What Changed</span>
+      <span className="text-xs text-gray-500">{changes.length} {changes.length === 1 ? 'change' : 'changes'}</span>
+    </div>
+    <ul className="space-y-3">
+      {changes.map((change, index) => (
+        <li key={index} className="text-sm border-l-2 border-gray-200 pl-3">
+          <p className="text-gray-800">{change.change}</p>
+          <p className="text-gray-500 text-xs mt-0.5">{change.reason}</p>
+          {change.question ? (
+            <p className="text-xs mt-1 text-blue-700">
+              <span className="font-medium">Q:</span> {change.question}
+              {change.answer && (
+                <>
+                  {' '}<span className="font-medium">A:</span> {change.answer}
+                </>
+              )}
+            </p>
+          ) : (
+            <p className="text-xs mt-1 text-gray-400">General improvement</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
\ No newline at end of file
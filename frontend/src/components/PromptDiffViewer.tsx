@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { diffPrompts, PromptDiffSegment } from '../utils/promptDiff';
+
+export interface PromptDiffTarget {
+  id: string;
+  label: string;
+  text: string;
+}
+
+interface PromptDiffViewerProps {
+  // The prompt as it is now
+  current: string;
+  // Earlier versions it can be compared against
+  targets: PromptDiffTarget[];
+  // Defaults to the first target
+  initialTargetId?: string;
+  onClose: () => void;
+}
+
+type DiffMode = 'inline' | 'side-by-side';
+
+const SEGMENT_STYLES: Record<PromptDiffSegment['type'], string> = {
+  equal: '',
+  insert: 'bg-green-100 text-green-800 rounded-sm',
+  delete: 'bg-red-100 text-red-700 line-through rounded-sm',
+  'moved-from': 'bg-blue-50 text-blue-400 line-through rounded-sm',
+  'moved-to': 'bg-blue-100 text-blue-800 rounded-sm',
+};
+
+const BEFORE_TYPES: PromptDiffSegment['type'][] = ['equal', 'delete', 'moved-from'];
+const AFTER_TYPES: PromptDiffSegment['type'][] = ['equal', 'insert', 'moved-to'];
+
+const DiffText: React.FC<{ segments: PromptDiffSegment[] }> = ({ segments }) => (
+  <p className="text-gray-700 text-sm whitespace-pre-wrap">
+    {segments.map((segment, index) => (
+      // Whitespace-only changes are not worth a highlight
+      <span key={index} className={segment.text.trim() ? SEGMENT_STYLES[segment.type] : ''}>
+        {segment.text}
+      </span>
+    ))}
+  </p>
+);
+
+export const PromptDiffViewer: React.FC<PromptDiffViewerProps> = ({ current, targets, initialTargetId, onClose }) => {
+  const [targetId, setTargetId] = useState(initialTargetId || targets[0]?.id);
+  const [mode, setMode] = useState<DiffMode>('inline');
+
+  const target = targets.find(t => t.id === targetId) || targets[0];
+  const targetText = target?.text;
+  const segments = useMemo(
+    () => (targetText === undefined ? [] : diffPrompts(targetText, current)),
+    [targetText, current]
+  );
+
+  const changeCount = segments.filter(segment => segment.type !== 'equal' && segment.text.trim()).length;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-100">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-black font-medium text-sm">🔍 Changes</span>
+        <select
+          value={target?.id}
+          onChange={(e) => setTargetId(e.target.value)}
+          className="text-xs border border-gray-200 rounded px-2 py-1 bg-white"
+          aria-label="Compare with"
+        >
+          {targets.map(t => (
+            <option key={t.id} value={t.id}>vs. {t.label}</option>
+          ))}
+        </select>
+        <div className="flex rounded border border-gray-200 overflow-hidden text-xs">
+          {(['inline', 'side-by-side'] as DiffMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-2 py-1 transition-colors ${
+                mode === option ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'inline' ? 'Inline' : 'Side by side'}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-auto p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          title="Close comparison"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {changeCount === 0 ? (
+        <p className="text-sm text-gray-500">No changes from {target?.label.toLowerCase()}.</p>
+      ) : mode === 'inline' ? (
+        <DiffText segments={segments} />
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-1">{target?.label}</div>
+            <DiffText segments={segments.filter(segment => BEFORE_TYPES.includes(segment.type))} />
+          </div>
+          <div className="border-l border-gray-200 pl-3">
+            <div className="text-xs font-medium text-gray-500 mb-1">Current</div>
+            <DiffText segments={segments.filter(segment => AFTER_TYPES.includes(segment.type))} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-500">
+        <span><span className={`px-1 ${SEGMENT_STYLES.insert}`}>added</span></span>
+        <span><span className={`px-1 ${SEGMENT_STYLES.delete}`}>removed</span></span>
+        <span><span className={`px-1 ${SEGMENT_STYLES['moved-to']}`}>moved</span></span>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
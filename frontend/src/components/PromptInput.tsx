@@ -11,6 +11,8 @@ export const PromptInput: React.FC = () => {
   const { 
     selectedProvider, 
     selectedModel, 
+    selectedLanguage,
+    selectedCategories,
     setSession, 
     setCurrentStep, 
     setQuestions, 
@@ -39,6 +41,8 @@ export const PromptInput: React.FC = () => {
         originalPrompt: prompt.trim(),
         llmProvider: selectedProvider,
         model: selectedModel,
+        language: selectedLanguage,
+        categories: selectedCategories,
       });
     },
     onSuccess: (data) => {
@@ -4,7 +4,7 @@ import { Send, Loader2, Copy, Edit3, Save, X } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 import { useRefinementStore } from '../store/refinementStore';
-import { apiService } from '../services/api';
+import { apiService, isQuotaExceededError } from '../services/api';
 import { SingleQuestionView } from './SingleQuestionView';
 import { LLMErrorModal } from './LLMErrorModal';
 
@@ -71,6 +71,17 @@ export const PromptQuestionLayout: React.FC = () => {
       setAutoSubmitting(false);
       const message = error.response?.data?.message || error.message || 'Failed to refine prompt';
       
+      if (isQuotaExceededError(error)) {
+        setLLMError({
+          message,
+          provider: selectedProvider,
+          model: selectedModel,
+          type: 'quota_exceeded',
+          quota: error.response.data.quota,
+        });
+        return;
+      }
+
       // Check if this is an LLM-related error
       const isLLMError = message.includes('API key') || 
                         message.includes('rate limit') || 
@@ -1,11 +1,13 @@
 import React from 'react';
 import { ChevronDown, Bot, Zap } from 'lucide-react';
-import { LLMProvider } from '../types';
+import { LLMProvider, ModelInfo } from '../types';
 
 interface ProviderSelectorProps {
   providers: LLMProvider[];
   selectedProvider: string;
   selectedModel?: string;
+  // Discovered models of the selected provider; falls back to the provider's supportedModels
+  models?: ModelInfo[];
   onProviderChange: (providerId: string) => void;
   onModelChange: (model: string) => void;
   disabled?: boolean;
@@ -15,12 +17,33 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
   providers,
   selectedProvider,
   selectedModel,
+  models = [],
   onProviderChange,
   onModelChange,
   disabled = false,
 }) => {
   const currentProvider = providers.find(p => p.id === selectedProvider);
-  const availableModels = currentProvider?.supportedModels || [];
+  const availableModels: ModelInfo[] = models.length > 0
+    ? models
+    : (currentProvider?.supportedModels || []).map((id) => ({ id, source: 'default' as const }));
+
+  const formatModelLabel = (model: ModelInfo) => {
+    const name = model.displayName || model.id;
+    if (!model.contextWindow) return name;
+    const context = model.contextWindow >= 1000
+      ? `${Math.round(model.contextWindow / 1000)}k`
+      : `${model.contextWindow}`;
+    return `${name} (${context} context)`;
+  };
+
+  const isCircuitOpen = (provider: LLMProvider) => provider.health?.circuitState === 'open';
+
+  const getStatus = (provider: LLMProvider) => {
+    if (!provider.isAvailable) return { label: 'Unavailable', color: 'bg-red-500' };
+    if (isCircuitOpen(provider)) return { label: 'Failing', color: 'bg-red-500' };
+    if (provider.health?.circuitState === 'half-open') return { label: 'Recovering', color: 'bg-amber-500' };
+    return { label: 'Available', color: 'bg-green-500' };
+  };
 
   const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const providerId = e.target.value;
@@ -32,7 +55,7 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
       return;
     }
     
-    if (!provider.isAvailable) {
+    if (!provider.isAvailable || isCircuitOpen(provider)) {
       console.error(`Provider '${providerId}' is not available`);
       return;
     }
@@ -74,13 +97,18 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
             className="appearance-none bg-white border border-gray-300 rounded-md pl-3 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed w-full"
           >
             <option value="">Select provider...</option>
-            {providers
-              .filter(provider => provider.isAvailable)
-              .map((provider) => (
-                <option key={provider.id} value={provider.id}>
-                  {provider.displayName}
-                </option>
-              ))}
+            {providers.map((provider) => (
+              <option
+                key={provider.id}
+                value={provider.id}
+                disabled={!provider.isAvailable || isCircuitOpen(provider)}
+                title={provider.unavailableMessage || provider.health?.lastError?.message}
+              >
+                {provider.displayName}
+                {!provider.isAvailable && ' (unavailable)'}
+                {provider.isAvailable && isCircuitOpen(provider) && ' (temporarily failing)'}
+              </option>
+            ))}
           </select>
           <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
         </div>
@@ -96,8 +124,8 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
             >
               <option value="">Select model...</option>
               {availableModels.map((model) => (
-                <option key={model} value={model}>
-                  {model}
+                <option key={model.id} value={model.id}>
+                  {formatModelLabel(model)}
                 </option>
               ))}
             </select>
@@ -108,10 +136,13 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
 
       {/* Provider status indicator */}
       {currentProvider && (
-        <div className="flex items-center space-x-1">
-          <div className={`w-2 h-2 rounded-full ${currentProvider.isAvailable ? 'bg-green-500' : 'bg-red-500'}`} />
+        <div
+          className="flex items-center space-x-1"
+          title={currentProvider.health?.lastError?.message}
+        >
+          <div className={`w-2 h-2 rounded-full ${getStatus(currentProvider).color}`} />
           <span className="text-xs text-gray-500 hidden sm:inline">
-            {currentProvider.isAvailable ? 'Available' : 'Unavailable'}
+            {getStatus(currentProvider).label}
           </span>
         </div>
       )}
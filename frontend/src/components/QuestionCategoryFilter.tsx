@@ -0,0 +1,73 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '../services/api';
+import { QuestionCategory } from '../types';
+
+interface QuestionCategoryFilterProps {
+  // Undefined asks about every category
+  selectedCategories?: string[];
+  onChange: (categories?: string[]) => void;
+  disabled?: boolean;
+}
+
+export const QuestionCategoryFilter: React.FC<QuestionCategoryFilterProps> = ({
+  selectedCategories,
+  onChange,
+  disabled = false,
+}) => {
+  const { data: categories = [] } = useQuery<QuestionCategory[]>({
+    queryKey: ['question-categories'],
+    queryFn: apiService.getQuestionCategories,
+    staleTime: Infinity,
+  });
+
+  // Ids from an earlier taxonomy are ignored
+  const selected = (selectedCategories || []).filter(id => categories.some(category => category.id === id));
+
+  const toggle = (id: string) => {
+    const next = selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id];
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  if (categories.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-gray-600">Ask about</span>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          disabled={disabled || selected.length === 0}
+          className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50 disabled:cursor-default"
+        >
+          {selected.length === 0 ? 'All categories' : 'Clear'}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Question categories">
+        {categories.map((category) => {
+          const isSelected = selected.includes(category.id);
+          return (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => toggle(category.id)}
+              disabled={disabled}
+              title={category.description}
+              aria-pressed={isSelected}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+                isSelected
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white text-gray-700 border-gray-200 hover:border-gray-400'
+              }`}
+            >
+              {category.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
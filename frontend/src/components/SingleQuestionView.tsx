@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useRefinementStore } from '../store/refinementStore';
+import { Answer, Question, QuestionType } from '../types';
 
 // Add CSS for screen reader only content
 const srOnlyStyles = `
@@ -36,12 +37,50 @@ if (typeof document !== 'undefined' && !document.getElementById('sr-only-styles'
   document.head.appendChild(style);
 }
 
+// Questions stored before question types existed are single-choice
+const questionType = (question: Question): QuestionType => question.type ?? 'single-choice';
+
+// The answer preselected when a question comes up; free-text questions have none
+const defaultResponse = (question: Question): Answer['response'] | undefined => {
+  switch (questionType(question)) {
+    case 'multi-select':
+      return [];
+    case 'free-text':
+      return undefined;
+    case 'number-range':
+      return question.range?.defaultValue;
+    case 'yes-no':
+      return question.defaultOption !== 1;
+    default:
+      return question.options?.[question.defaultOption || 1];
+  }
+};
+
+const selectedOptions = (answer?: Answer): string[] => Array.isArray(answer?.response) ? answer!.response : [];
+
+const optionButtonStyles = (isActive: boolean, isSelected: boolean) => {
+  if (!isActive) {
+    return isSelected 
+      ? 'bg-gray-200 text-gray-600 border-2 border-gray-400' 
+      : 'bg-gray-100 text-gray-500 border border-gray-300';
+  }
+  return isSelected 
+    ? 'bg-gray-100 text-black border-4 border-black shadow-lg' 
+    : 'bg-white text-black border border-black hover:bg-gray-50';
+};
+
+const continueButtonStyles = 'px-3 py-1 text-xs bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium focus:outline-none focus:ring-1 focus:ring-primary-500';
+
 interface SingleQuestionViewProps {
   className?: string;
   onAutoSubmit?: () => void;
+  // More questions are still streaming in, so the last card must not auto-submit yet
+  isGeneratingMore?: boolean;
+  // Adaptive mode: called with each answered question, to ask a follow-up in place of auto-submitting
+  onFollowUp?: (questionId: string) => void;
 }
 
-export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ className = '', onAutoSubmit }) => {
+export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ className = '', onAutoSubmit, isGeneratingMore = false, onFollowUp }) => {
   const {
     questions,
     answers,
@@ -56,7 +95,9 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
   const [customAnswer, setCustomAnswer] = useState('');
   const [focusedElement, setFocusedElement] = useState<'custom' | null>(null);
   const [showCustomInput, setShowCustomInput] = useState(false);
+  const [freeText, setFreeText] = useState('');
   const customInputRef = useRef<HTMLInputElement>(null);
+  const freeTextRef = useRef<HTMLTextAreaElement>(null);
   
   // Use refs for values that change frequently to avoid re-registering event listeners
   const focusedElementRef = useRef(focusedElement);
@@ -73,6 +114,7 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
 
   const currentQuestion = questions[currentQuestionIndex];
   const currentAnswer = answers.find(a => a.questionId === currentQuestion?.id);
+  const currentType = currentQuestion ? questionType(currentQuestion) : 'single-choice';
   
   // Get 3 questions for stacked view: previous, current, next
   const getStackedQuestions = () => {
@@ -110,12 +152,13 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
   
   const stackedQuestions = getStackedQuestions();
 
-  // Set default answer to middle option if no answer exists
+  // Set the default answer (the middle option of a single-choice question) if no answer exists
   useEffect(() => {
-    if (currentQuestion && !currentAnswer && currentQuestion.options && currentQuestion.options.length > 0) {
-      const defaultOptionIndex = currentQuestion.defaultOption || 1;
-      const defaultOptionValue = currentQuestion.options[defaultOptionIndex];
-      updateAnswer(currentQuestion.id, defaultOptionValue);
+    if (currentQuestion && !currentAnswer) {
+      const response = defaultResponse(currentQuestion);
+      if (response !== undefined) {
+        updateAnswer(currentQuestion.id, response);
+      }
     }
   }, [currentQuestion, currentAnswer, updateAnswer]);
 
@@ -126,21 +169,23 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
     }
   }, [focusedElement]);
 
-  // Clear custom answer when question changes
+  // Clear custom answer when question changes; a free-text answer is picked up again for editing
   useEffect(() => {
     setCustomAnswer('');
     setFocusedElement(null);
     setShowCustomInput(false);
+    setFreeText(typeof currentAnswer?.response === 'string' ? currentAnswer.response : '');
   }, [currentQuestionIndex]);
 
-  const handleAnswer = useCallback((response: boolean | string) => {
+  const handleAnswer = useCallback((response: Answer['response']) => {
     if (!currentQuestion) return;
     
     updateAnswer(currentQuestion.id, response);
     setCustomAnswer('');
     setFocusedElement(null);
+    onFollowUp?.(currentQuestion.id);
     
-    const isLastQuestion = currentQuestionIndex === questions.length - 1;
+    const isLastQuestion = currentQuestionIndex === questions.length - 1 && !isGeneratingMore && !onFollowUp;
     
     if (isLastQuestion && onAutoSubmit) {
       // Auto-submit for last question
@@ -156,7 +201,31 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
         }
       }, 300);
     }
-  }, [currentQuestion, updateAnswer, currentQuestionIndex, questions.length, nextQuestion, onAutoSubmit, setAutoSubmitting]);
+  }, [currentQuestion, updateAnswer, currentQuestionIndex, questions.length, nextQuestion, onAutoSubmit, setAutoSubmitting, isGeneratingMore, onFollowUp]);
+
+  // Multi-select: picking an option does not move on, so several can be picked
+  const toggleOption = useCallback((option: string) => {
+    if (!currentQuestion) return;
+    const selected = selectedOptions(currentAnswer);
+    updateAnswer(
+      currentQuestion.id,
+      currentQuestion.options.filter(o => o === option ? !selected.includes(o) : selected.includes(o))
+    );
+  }, [currentQuestion, currentAnswer, updateAnswer]);
+
+  // Number-range: move the value by one step, within the range
+  const adjustRange = useCallback((direction: 1 | -1) => {
+    const range = currentQuestion?.range;
+    if (!currentQuestion || !range) return;
+    const value = typeof currentAnswer?.response === 'number' ? currentAnswer.response : range.defaultValue;
+    updateAnswer(currentQuestion.id, Math.min(range.max, Math.max(range.min, value + direction * range.step)));
+  }, [currentQuestion, currentAnswer, updateAnswer]);
+
+  const submitFreeText = useCallback(() => {
+    if (freeText.trim()) {
+      handleAnswer(freeText.trim());
+    }
+  }, [freeText, handleAnswer]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -183,7 +252,9 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
         e.preventDefault();
         const isLastQuestion = currentQuestionIndex === questions.length - 1;
         
-        if (isLastQuestion) {
+        if (isLastQuestion && isGeneratingMore) {
+          // Wait for the next streamed question instead of submitting
+        } else if (isLastQuestion) {
           // On last question, arrow down should trigger auto-submit
           if (currentAnswer && onAutoSubmit) {
             // Already have an answer, trigger auto-submit directly
@@ -191,11 +262,12 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
             setTimeout(() => {
               onAutoSubmit();
             }, 400);
-          } else if (currentQuestion?.options && onAutoSubmit) {
-            // No answer yet, select default option which will trigger auto-submit
-            const defaultOptionIndex = currentQuestion.defaultOption || 1;
-            const defaultOptionValue = currentQuestion.options[defaultOptionIndex];
-            handleAnswer(defaultOptionValue);
+          } else if (currentQuestion && onAutoSubmit) {
+            // No answer yet, select the default which will trigger auto-submit
+            const response = defaultResponse(currentQuestion);
+            if (response !== undefined) {
+              handleAnswer(response);
+            }
           }
         } else {
           // Not last question, go to next question as normal
@@ -203,6 +275,46 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
         }
       }
       
+      // Yes-no: Yes is on the left
+      else if (currentType === 'yes-no') {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+          e.preventDefault();
+          handleAnswer(e.key === 'ArrowLeft');
+        }
+      }
+
+      // Multi-select: number keys toggle options, Enter moves on
+      else if (currentType === 'multi-select') {
+        const optionIndex = Number(e.key) - 1;
+        if (currentQuestion && optionIndex >= 0 && optionIndex < currentQuestion.options.length) {
+          e.preventDefault();
+          toggleOption(currentQuestion.options[optionIndex]);
+        } else if (e.key === 'Enter') {
+          e.preventDefault();
+          handleAnswer(selectedOptions(currentAnswer));
+        }
+      }
+
+      // Number-range: arrows adjust the value, Enter moves on
+      else if (currentType === 'number-range') {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+          e.preventDefault();
+          adjustRange(e.key === 'ArrowLeft' ? -1 : 1);
+        } else if (e.key === 'Enter' && typeof currentAnswer?.response === 'number') {
+          e.preventDefault();
+          handleAnswer(currentAnswer.response);
+        }
+      }
+
+      // Free-text: typing goes straight into the text box
+      else if (currentType === 'free-text') {
+        if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          e.preventDefault();
+          setFreeText(text => text + e.key);
+          setTimeout(() => freeTextRef.current?.focus(), 0);
+        }
+      }
+
       // Answer selection for 3 options - only if not in custom input mode
       else if (e.key === 'ArrowLeft' && currentQuestion?.options && !showCustomInput) {
         e.preventDefault();
@@ -249,7 +361,7 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentQuestionIndex, questions.length, previousQuestion, nextQuestion, handleAnswer, currentQuestion, currentAnswer, onAutoSubmit, setAutoSubmitting, showCustomInput]);
+  }, [currentQuestionIndex, questions.length, previousQuestion, nextQuestion, handleAnswer, currentQuestion, currentAnswer, currentType, toggleOption, adjustRange, onAutoSubmit, setAutoSubmitting, showCustomInput, isGeneratingMore]);
 
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -313,6 +425,10 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
               >
                 {/* Question Text */}
                 <div className="text-center mb-4">
+                  <span className="block text-[10px] uppercase tracking-wide text-gray-400 mb-1">
+                    {question.category}
+                    {question.parentQuestionId && ' · follow-up'}
+                  </span>
                   <h1 className={`text-sm font-medium text-gray-900 mb-2 ${!isActive ? 'text-gray-600' : ''}`} id={`question-${index}`}>
                     {question.text}
                   </h1>
@@ -320,82 +436,229 @@ export const SingleQuestionView: React.FC<SingleQuestionViewProps> = ({ classNam
 
                 {/* Answer Options - Only interactive for current question */}
                 <div className="space-y-4">
-                  <fieldset className="grid grid-cols-3 gap-2 max-w-2xl mx-auto">
-                    <legend className="sr-only">Choose from the available options for question {index + 1}</legend>
-                    {question.options && question.options.map((option, optionIndex) => {
-                      const isSelected = questionAnswer?.response === option;
-                      const isDefault = optionIndex === (question.defaultOption || 1);
-                      
-                      const getButtonStyles = () => {
-                        if (!isActive) {
-                          return isSelected 
-                            ? 'bg-gray-200 text-gray-600 border-2 border-gray-400' 
-                            : 'bg-gray-100 text-gray-500 border border-gray-300';
-                        }
-                        return isSelected 
-                          ? 'bg-gray-100 text-black border-4 border-black shadow-lg' 
-                          : 'bg-white text-black border border-black hover:bg-gray-50';
-                      };
-
-                      return (
-                        <button
-                          key={option}
-                          onClick={() => isActive ? handleAnswer(option) : undefined}
-                          disabled={!isActive}
-                          className={`px-2 py-3 text-xs font-medium rounded-md transition-all duration-200 ${getButtonStyles()} ${isActive ? 'transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-gray-300' : 'cursor-default'} min-h-[3rem] flex items-center justify-center text-center leading-tight`}
-                          aria-pressed={isSelected}
-                          tabIndex={isActive ? 0 : -1}
-                        >
-                          <span className="break-words hyphens-auto">
-                            {option}
-                            {isDefault && !isSelected && isActive && (
-                              <span className="block text-xs opacity-75 mt-1">(default)</span>
-                            )}
-                          </span>
-                        </button>
-                      );
-                    })}
-                  </fieldset>
-
-                  {/* Custom Answer Input - Only for current question */}
-                  {isActive && showCustomInput && (
-                    <div className="max-w-xs mx-auto">
-                      <form onSubmit={handleCustomSubmit} role="form">
-                        <div className="flex gap-2">
-                          <input
-                            ref={customInputRef}
-                            type="text"
-                            value={customAnswer}
-                            onChange={(e) => setCustomAnswer(e.target.value)}
-                            onFocus={() => setFocusedElement('custom')}
-                            placeholder="Type custom answer..."
-                            className={`flex-1 px-2 py-1 text-xs border-2 rounded-md transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-primary-500 ${
-                              focusedElement === 'custom'
-                                ? 'border-primary-500 bg-primary-50'
-                                : 'border-gray-300 focus:border-primary-500'
-                            }`}
-                            aria-label="Provide a custom answer"
-                          />
+                  {questionType(question) === 'single-choice' && (
+                    <>
+                      <fieldset className="grid grid-cols-3 gap-2 max-w-2xl mx-auto">
+                        <legend className="sr-only">Choose from the available options for question {index + 1}</legend>
+                        {question.options && question.options.map((option, optionIndex) => {
+                          const isSelected = questionAnswer?.response === option;
+                          const isDefault = optionIndex === (question.defaultOption || 1);
+
+                          return (
+                            <button
+                              key={option}
+                              onClick={() => isActive ? handleAnswer(option) : undefined}
+                              disabled={!isActive}
+                              className={`px-2 py-3 text-xs font-medium rounded-md transition-all duration-200 ${optionButtonStyles(isActive, isSelected)} ${isActive ? 'transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-gray-300' : 'cursor-default'} min-h-[3rem] flex items-center justify-center text-center leading-tight`}
+                              aria-pressed={isSelected}
+                              tabIndex={isActive ? 0 : -1}
+                            >
+                              <span className="break-words hyphens-auto">
+                                {option}
+                                {isDefault && !isSelected && isActive && (
+                                  <span className="block text-xs opacity-75 mt-1">(default)</span>
+                                )}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </fieldset>
+
+                      {/* Custom Answer Input - Only for current question */}
+                      {isActive && showCustomInput && (
+                        <div className="max-w-xs mx-auto">
+                          <form onSubmit={handleCustomSubmit} role="form">
+                            <div className="flex gap-2">
+                              <input
+                                ref={customInputRef}
+                                type="text"
+                                value={customAnswer}
+                                onChange={(e) => setCustomAnswer(e.target.value)}
+                                onFocus={() => setFocusedElement('custom')}
+                                placeholder="Type custom answer..."
+                                className={`flex-1 px-2 py-1 text-xs border-2 rounded-md transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-primary-500 ${
+                                  focusedElement === 'custom'
+                                    ? 'border-primary-500 bg-primary-50'
+                                    : 'border-gray-300 focus:border-primary-500'
+                                }`}
+                                aria-label="Provide a custom answer"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!customAnswer.trim()}
+                                className="px-2 py-1 text-xs bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium focus:outline-none focus:ring-1 focus:ring-primary-500"
+                                aria-label="Submit custom answer"
+                              >
+                                Submit
+                              </button>
+                            </div>
+                          </form>
+                          <div className="text-center mt-1">
+                            <span className="text-xs text-gray-400">Press Esc or arrow keys to exit</span>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Custom Answer Hint - Only for current question */}
+                      {isActive && !showCustomInput && (
+                        <div className="text-center">
+                          <span className="text-xs text-gray-400">Press Space for custom answer</span>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {questionType(question) === 'yes-no' && (
+                    <>
+                      <fieldset className="grid grid-cols-2 gap-2 max-w-md mx-auto">
+                        <legend className="sr-only">Answer yes or no to question {index + 1}</legend>
+                        {[true, false].map((value, optionIndex) => {
+                          const isSelected = questionAnswer?.response === value;
+                          const label = question.options[optionIndex] || (value ? 'Yes' : 'No');
+
+                          return (
+                            <button
+                              key={label}
+                              onClick={() => isActive ? handleAnswer(value) : undefined}
+                              disabled={!isActive}
+                              className={`px-2 py-3 text-xs font-medium rounded-md transition-all duration-200 ${optionButtonStyles(isActive, isSelected)} ${isActive ? 'transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-gray-300' : 'cursor-default'} min-h-[3rem] flex items-center justify-center text-center leading-tight`}
+                              aria-pressed={isSelected}
+                              tabIndex={isActive ? 0 : -1}
+                            >
+                              {label}
+                            </button>
+                          );
+                        })}
+                      </fieldset>
+                      {isActive && (
+                        <div className="text-center">
+                          <span className="text-xs text-gray-400">Press ← for {question.options[0] || 'Yes'}, → for {question.options[1] || 'No'}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {questionType(question) === 'multi-select' && (
+                    <>
+                      <fieldset className="grid grid-cols-3 gap-2 max-w-2xl mx-auto">
+                        <legend className="sr-only">Select all that apply for question {index + 1}</legend>
+                        {question.options.map((option, optionIndex) => {
+                          const isSelected = selectedOptions(questionAnswer).includes(option);
+
+                          return (
+                            <button
+                              key={option}
+                              onClick={() => isActive ? toggleOption(option) : undefined}
+                              disabled={!isActive}
+                              className={`px-2 py-3 text-xs font-medium rounded-md transition-all duration-200 ${optionButtonStyles(isActive, isSelected)} ${isActive ? 'transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-gray-300' : 'cursor-default'} min-h-[3rem] flex items-center justify-center text-center leading-tight`}
+                              aria-pressed={isSelected}
+                              tabIndex={isActive ? 0 : -1}
+                            >
+                              <span className="break-words hyphens-auto">
+                                {isActive && optionIndex < 9 && <span className="opacity-50 mr-1">{optionIndex + 1}</span>}
+                                {option}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </fieldset>
+                      {isActive && (
+                        <div className="flex items-center justify-center gap-3">
+                          <span className="text-xs text-gray-400">Select all that apply (1-{Math.min(question.options.length, 9)}), Enter to continue</span>
                           <button
-                            type="submit"
-                            disabled={!customAnswer.trim()}
-                            className="px-2 py-1 text-xs bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium focus:outline-none focus:ring-1 focus:ring-primary-500"
-                            aria-label="Submit custom answer"
+                            type="button"
+                            onClick={() => handleAnswer(selectedOptions(questionAnswer))}
+                            className={continueButtonStyles}
                           >
-                            Submit
+                            Continue
                           </button>
                         </div>
-                      </form>
-                      <div className="text-center mt-1">
-                        <span className="text-xs text-gray-400">Press Esc or arrow keys to exit</span>
+                      )}
+                    </>
+                  )}
+
+                  {questionType(question) === 'number-range' && question.range && (
+                    <div className="max-w-md mx-auto">
+                      <div className="text-center text-lg font-semibold text-gray-900 mb-2" aria-live="polite">
+                        {typeof questionAnswer?.response === 'number' ? questionAnswer.response : question.range.defaultValue}
+                        {question.range.unit && <span className="ml-1 text-xs font-normal text-gray-500">{question.range.unit}</span>}
+                      </div>
+                      <input
+                        type="range"
+                        min={question.range.min}
+                        max={question.range.max}
+                        step={question.range.step}
+                        value={typeof questionAnswer?.response === 'number' ? questionAnswer.response : question.range.defaultValue}
+                        onChange={(e) => updateAnswer(question.id, Number(e.target.value))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleAnswer(Number(e.currentTarget.value));
+                          }
+                        }}
+                        disabled={!isActive}
+                        tabIndex={isActive ? 0 : -1}
+                        className="w-full accent-black"
+                        aria-label={`Answer to question ${index + 1}`}
+                      />
+                      <div className="flex justify-between text-xs text-gray-400">
+                        <span>{question.range.min}</span>
+                        <span>{question.range.max}</span>
                       </div>
+                      {isActive && (
+                        <div className="flex items-center justify-center gap-3 mt-2">
+                          <span className="text-xs text-gray-400">Use ← → to adjust, Enter to continue</span>
+                          <button
+                            type="button"
+                            onClick={() => handleAnswer(typeof questionAnswer?.response === 'number' ? questionAnswer.response : question.range!.defaultValue)}
+                            className={continueButtonStyles}
+                          >
+                            Continue
+                          </button>
+                        </div>
+                      )}
                     </div>
                   )}
-                  
-                  {/* Custom Answer Hint - Only for current question */}
-                  {isActive && !showCustomInput && (
-                    <div className="text-center">
-                      <span className="text-xs text-gray-400">Press Space for custom answer</span>
+
+                  {questionType(question) === 'free-text' && (
+                    <div className="max-w-md mx-auto">
+                      {isActive ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            submitFreeText();
+                          }}
+                          role="form"
+                        >
+                          <textarea
+                            ref={freeTextRef}
+                            value={freeText}
+                            onChange={(e) => setFreeText(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                submitFreeText();
+                              } else if (e.key === 'Escape') {
+                                e.currentTarget.blur();
+                              }
+                            }}
+                            rows={3}
+                            placeholder="Type your answer..."
+                            className="w-full px-2 py-1 text-xs border-2 border-gray-300 rounded-md transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+                            aria-label={`Answer to question ${index + 1}`}
+                          />
+                          <div className="flex items-center justify-center gap-3 mt-1">
+                            <span className="text-xs text-gray-400">Enter to continue, Shift+Enter for a new line</span>
+                            <button type="submit" disabled={!freeText.trim()} className={continueButtonStyles}>
+                              Continue
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <p className="text-xs text-gray-500 text-center whitespace-pre-wrap">
+                          {typeof questionAnswer?.response === 'string' ? questionAnswer.response : 'Not answered yet'}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Sparkles, ArrowRight, Settings, Zap, TestTube, Loader2 } from 'lucide-react';
 import { apiService } from '../services/api';
 import { ChatInterface } from '../components/ChatInterface';
 import { ProviderSelector } from '../components/ProviderSelector';
+import { LanguageSelector } from '../components/LanguageSelector';
 import { useRefinementStore } from '../store/refinementStore';
 import { LLMProvider } from '../types';
 
@@ -16,8 +18,11 @@ export const HomePage: React.FC = () => {
   const {
     selectedProvider,
     selectedModel,
+    selectedLanguage,
+    availableModels,
     setSelectedProvider,
     setSelectedModel,
+    setSelectedLanguage,
     initializeProvider,
     validateAndUpdateModel,
   } = useRefinementStore();
@@ -26,6 +31,7 @@ export const HomePage: React.FC = () => {
     queryKey: ['providers'],
     queryFn: apiService.getProviders,
     staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchInterval: 30 * 1000, // Keep circuit breaker states current
   });
 
   const { data: defaultProvider } = useQuery<LLMProvider | null>({
@@ -43,13 +49,13 @@ export const HomePage: React.FC = () => {
       if (isDefaultAvailable) {
         initializeProvider(defaultProvider.id);
         // Validate and update model selection
-        validateAndUpdateModel(defaultProvider.supportedModels);
+        validateAndUpdateModel(defaultProvider.id);
       } else {
         // Fallback to first available provider
         const firstAvailable = providers.find(p => p.isAvailable);
         if (firstAvailable) {
           initializeProvider(firstAvailable.id);
-          validateAndUpdateModel(firstAvailable.supportedModels);
+          validateAndUpdateModel(firstAvailable.id);
         }
       }
     } else if (providers.length > 0 && !selectedProvider) {
@@ -57,7 +63,7 @@ export const HomePage: React.FC = () => {
       const firstAvailable = providers.find(p => p.isAvailable);
       if (firstAvailable) {
         initializeProvider(firstAvailable.id);
-        validateAndUpdateModel(firstAvailable.supportedModels);
+        validateAndUpdateModel(firstAvailable.id);
       }
     }
   }, [defaultProvider, providers, selectedProvider, initializeProvider, validateAndUpdateModel]);
@@ -71,11 +77,11 @@ export const HomePage: React.FC = () => {
         const firstAvailable = providers.find(p => p.isAvailable);
         if (firstAvailable) {
           setSelectedProvider(firstAvailable.id);
-          validateAndUpdateModel(firstAvailable.supportedModels);
+          validateAndUpdateModel(firstAvailable.id);
         }
       } else {
         // Provider is available, validate the model
-        validateAndUpdateModel(currentProvider.supportedModels);
+        validateAndUpdateModel(currentProvider.id);
       }
     }
   }, [providers, selectedProvider, setSelectedProvider, validateAndUpdateModel]);
@@ -123,12 +129,30 @@ export const HomePage: React.FC = () => {
                   providers={providers}
                   selectedProvider={selectedProvider}
                   selectedModel={selectedModel}
+                  models={availableModels}
                   onProviderChange={setSelectedProvider}
                   onModelChange={setSelectedModel}
                   disabled={providersLoading}
                 />
               </div>
+
+              <div className="w-full sm:w-auto">
+                <LanguageSelector
+                  selectedLanguage={selectedLanguage}
+                  onLanguageChange={setSelectedLanguage}
+                />
+              </div>
               
+              {/* Prompt template admin */}
+              <Link
+                to="/admin/prompts"
+                className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-gray-700 border border-gray-200 hover:bg-gray-50 transition-colors whitespace-nowrap w-full sm:w-auto justify-center sm:justify-start"
+                title="Edit the prompts sent to each provider"
+              >
+                <Settings className="h-4 w-4 mr-2" />
+                Prompts
+              </Link>
+
               {/* Test API Button */}
               <button
                 onClick={handleTestApi}
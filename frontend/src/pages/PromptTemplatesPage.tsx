@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, FileCode, History, Key, Loader2, Plus, RotateCcw, Save, Search, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { apiService, getAdminKey, setAdminKey } from '../services/api';
+import { LLMProvider, PromptPlaceholder, PromptResolution, PromptTemplate, PromptTemplateDefaults, PromptTemplateType } from '../types';
+
+const TEMPLATE_TYPES: PromptTemplateType[] = ['generation', 'refinement'];
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Same checks as the backend, so problems show while typing
+const findPlaceholderIssues = (content: string, placeholders: PromptPlaceholder[]): string[] => {
+  const used = new Set(Array.from(content.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+  return [
+    ...placeholders
+      .filter(placeholder => placeholder.required && !used.has(placeholder.name))
+      .map(placeholder => `Missing required placeholder {{${placeholder.name}}}`),
+    ...Array.from(used)
+      .filter(name => !placeholders.some(placeholder => placeholder.name === name))
+      .map(name => `Unknown placeholder {{${name}}}`),
+  ];
+};
+
+const describeScope = (template: PromptTemplate) => `${template.providerId} · ${template.model || 'all models'}`;
+
+const RESOLUTION_LEVELS: Record<PromptResolution['level'], string> = {
+  model: 'model template',
+  'model-family': 'model family',
+  provider: 'provider prompt',
+  base: 'base prompt',
+};
+
+// Shows which prompt a provider and model would actually be sent
+const ResolutionCheck: React.FC<{ providers: LLMProvider[] }> = ({ providers }) => {
+  const [providerId, setProviderId] = useState('');
+  const [model, setModel] = useState('');
+  const resolveMutation = useMutation({
+    mutationFn: () => apiService.resolvePrompt(providerId || providers[0]?.id, model.trim()),
+    onError: (error: any) => toast.error(error.message || 'Failed to resolve prompt'),
+  });
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100 space-y-2">
+      <h2 className="text-sm font-medium text-gray-600">Which prompt is used?</h2>
+      <select
+        value={providerId || providers[0]?.id || ''}
+        onChange={(e) => setProviderId(e.target.value)}
+        className="w-full text-sm border border-gray-200 rounded px-2 py-1.5 bg-white"
+        aria-label="Provider"
+      >
+        {providers.map(p => <option key={p.id} value={p.id}>{p.displayName || p.name}</option>)}
+      </select>
+      <div className="flex gap-2">
+        <input
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          placeholder="Model"
+          className="flex-1 min-w-0 text-sm border border-gray-200 rounded px-2 py-1.5"
+          aria-label="Model"
+        />
+        <button
+          onClick={() => resolveMutation.mutate()}
+          disabled={resolveMutation.isPending || providers.length === 0}
+          className="p-2 rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          title="Resolve"
+        >
+          <Search className="h-4 w-4" />
+        </button>
+      </div>
+      {resolveMutation.data?.map(resolution => (
+        <div key={resolution.type} className="text-xs bg-gray-50 rounded p-2 border border-gray-100">
+          <div className="flex flex-wrap gap-1">
+            <span className="font-medium text-gray-900 capitalize">{resolution.type}:</span>
+            <span className="text-gray-700">
+              {resolution.origin === 'custom' ? 'custom' : 'built-in'} {RESOLUTION_LEVELS[resolution.level]}
+              {resolution.pattern && ` (${resolution.pattern})`}
+              {resolution.version && ` v${resolution.version}`}
+            </span>
+          </div>
+          <p className="text-gray-500 mt-1 line-clamp-2 font-mono">{resolution.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface TemplateDraft {
+  type: PromptTemplateType;
+  providerId: string;
+  model: string;
+  content: string;
+  note: string;
+}
+
+const emptyDraft = (providerId = ''): TemplateDraft => ({ type: 'generation', providerId, model: '', content: '', note: '' });
+
+export const PromptTemplatesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  // null while creating a new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(emptyDraft());
+  const [adminKey, setAdminKeyInput] = useState(getAdminKey());
+
+  const { data: templates = [], isLoading } = useQuery<PromptTemplate[]>({
+    queryKey: ['prompt-templates'],
+    queryFn: apiService.getPromptTemplates,
+  });
+
+  const { data: defaults } = useQuery<PromptTemplateDefaults>({
+    queryKey: ['prompt-template-defaults'],
+    queryFn: apiService.getPromptTemplateDefaults,
+    staleTime: Infinity,
+  });
+
+  const { data: providers = [] } = useQuery<LLMProvider[]>({
+    queryKey: ['provider-configs'],
+    queryFn: apiService.getProviderConfigs,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const selected = templates.find(template => template.id === selectedId) || null;
+  const placeholders = defaults?.placeholders[selected?.type || draft.type] || [];
+  const issues = findPlaceholderIssues(draft.content, placeholders);
+  const provider = providers.find(p => p.id === (selected?.providerId || draft.providerId));
+
+  useEffect(() => {
+    if (!draft.providerId && providers.length > 0) {
+      setDraft(current => ({ ...current, providerId: providers[0].id }));
+    }
+  }, [providers, draft.providerId]);
+
+  const selectTemplate = (template: PromptTemplate | null) => {
+    setSelectedId(template?.id || null);
+    setDraft(template
+      ? { type: template.type, providerId: template.providerId, model: template.model || '', content: template.content, note: '' }
+      : emptyDraft(providers[0]?.id));
+  };
+
+  const onSaved = (template: PromptTemplate, message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+    selectTemplate(template);
+    toast.success(message);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => selected
+      ? apiService.updatePromptTemplate(selected.id, { content: draft.content, note: draft.note || undefined })
+      : apiService.createPromptTemplate({
+        type: draft.type,
+        providerId: draft.providerId,
+        model: draft.model.trim() || undefined,
+        content: draft.content,
+        note: draft.note || undefined,
+      }),
+    onSuccess: (template) => onSaved(template, selected ? `Saved as version ${template.version}` : 'Template created'),
+    onError: (error: any) => toast.error(error.message || 'Failed to save template'),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (version: number) => apiService.restorePromptTemplateVersion(selected!.id, version),
+    onSuccess: (template) => onSaved(template, `Restored as version ${template.version}`),
+    onError: (error: any) => toast.error(error.message || 'Failed to restore version'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiService.deletePromptTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+      selectTemplate(null);
+      toast.success('Template deleted; the built-in prompt applies again');
+    },
+    onError: (error: any) => toast.error(error.message || 'Failed to delete template'),
+  });
+
+  const handleStartFromBuiltIn = () => {
+    if (!defaults) return;
+    const builtIn = defaults.builtIn[draft.providerId] || defaults.builtIn.openai;
+    setDraft(current => ({ ...current, content: builtIn[current.type] }));
+  };
+
+  const handleDelete = () => {
+    if (selected && window.confirm(`Delete the ${selected.type} template for ${describeScope(selected)}?`)) {
+      deleteMutation.mutate(selected.id);
+    }
+  };
+
+  const insertPlaceholder = (name: string) => {
+    setDraft(current => ({ ...current, content: `${current.content}{{${name}}}` }));
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="bg-white border-b border-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center gap-3">
+          <Link to="/" className="p-1 text-gray-500 hover:text-gray-800" title="Back to the app">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <FileCode className="h-6 w-6 text-gray-700" />
+          <h1 className="text-xl font-bold text-gray-900">Prompt Templates</h1>
+          <div className="ml-auto flex items-center gap-2">
+            <Key className="h-4 w-4 text-gray-400" />
+            <input
+              type="password"
+              value={adminKey}
+              onChange={(e) => setAdminKeyInput(e.target.value)}
+              onBlur={() => setAdminKey(adminKey.trim())}
+              placeholder="Admin key"
+              className="text-sm border border-gray-200 rounded px-2 py-1 w-40"
+              aria-label="Admin key"
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template list */}
+        <section className="space-y-2">
+          <button
+            onClick={() => selectTemplate(null)}
+            className={`w-full flex items-center gap-2 px-3 py-2 rounded-md border text-sm transition-colors ${
+              selectedId === null ? 'border-gray-800 bg-gray-800 text-white' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <Plus className="h-4 w-4" />
+            New template
+          </button>
+          {isLoading ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-gray-400" /></div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500 px-1">No custom templates yet; every provider uses its built-in prompts.</p>
+          ) : (
+            templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => selectTemplate(template)}
+                className={`w-full text-left px-3 py-2 rounded-md border transition-colors ${
+                  template.id === selectedId ? 'border-blue-300 bg-blue-50' : 'border-gray-100 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-900 capitalize">{template.type}</span>
+                  <span className="text-xs text-gray-500 ml-auto">v{template.version}</span>
+                </div>
+                <div className="text-xs text-gray-600">{describeScope(template)}</div>
+              </button>
+            ))
+          )}
+          <ResolutionCheck providers={providers} />
+        </section>
+
+        {/* Editor */}
+        <section className="lg:col-span-2 space-y-4">
+          {selected ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900 capitalize">{selected.type} template</span>
+              <span className="text-gray-600">for {describeScope(selected)}</span>
+              <button
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="ml-auto flex items-center gap-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Type</span>
+                <select
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as PromptTemplateType })}
+                  className="w-full text-sm border border-gray-200 rounded px-2 py-1.5 bg-white"
+                >
+                  {TEMPLATE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Provider</span>
+                <select
+                  value={draft.providerId}
+                  onChange={(e) => setDraft({ ...draft, providerId: e.target.value, model: '' })}
+                  className="w-full text-sm border border-gray-200 rounded px-2 py-1.5 bg-white"
+                >
+                  {providers.map(p => <option key={p.id} value={p.id}>{p.displayName || p.name}</option>)}
+                </select>
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Model or pattern (empty for all models)</span>
+                <input
+                  value={draft.model}
+                  onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                  list="prompt-template-models"
+                  placeholder="e.g. llama-3.1-*"
+                  className="w-full text-sm border border-gray-200 rounded px-2 py-1.5"
+                />
+                <datalist id="prompt-template-models">
+                  {provider?.supportedModels.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-600">Placeholders:</span>
+            {placeholders.length === 0 && <span className="text-gray-400">none for this type</span>}
+            {placeholders.map(placeholder => (
+              <button
+                key={placeholder.name}
+                onClick={() => insertPlaceholder(placeholder.name)}
+                title={placeholder.description}
+                className="px-2 py-0.5 rounded border border-gray-200 font-mono hover:bg-gray-50"
+              >
+                {`{{${placeholder.name}}}`}{placeholder.required && <span className="text-red-500">*</span>}
+              </button>
+            ))}
+            {!selected && (
+              <button
+                onClick={handleStartFromBuiltIn}
+                disabled={!defaults}
+                className="ml-auto text-blue-700 hover:text-blue-900 disabled:opacity-50"
+              >
+                Start from the built-in prompt
+              </button>
+            )}
+          </div>
+
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            rows={18}
+            className="w-full p-3 border border-gray-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-gray-400 focus:border-transparent"
+            placeholder="System prompt for this provider or model..."
+          />
+          {draft.content && issues.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-0.5">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={draft.note}
+              onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+              placeholder="What changed (optional)"
+              maxLength={200}
+              className="flex-1 min-w-[12rem] text-sm border border-gray-200 rounded px-2 py-1.5"
+            />
+            <button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !draft.content.trim() || issues.length > 0 || (!selected && !draft.providerId)}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium text-white bg-gray-800 hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {selected ? 'Save as new version' : 'Create template'}
+            </button>
+          </div>
+
+          {selected && (
+            <div>
+              <h2 className="flex items-center gap-2 text-sm font-medium text-gray-600 mb-2">
+                <History className="h-4 w-4" />
+                Versions
+              </h2>
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {[...selected.versions].reverse().map(version => (
+                  <li key={version.version} className="flex items-center gap-2 text-sm px-3 py-2 rounded border border-gray-100">
+                    <span className="font-medium text-gray-900">v{version.version}</span>
+                    <span className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                    {version.note && <span className="text-xs text-gray-600 truncate">{version.note}</span>}
+                    {version.version === selected.version ? (
+                      <span className="ml-auto text-xs text-green-700">In use</span>
+                    ) : (
+                      <span className="ml-auto flex items-center gap-3">
+                        <button
+                          onClick={() => setDraft({ ...draft, content: version.content })}
+                          className="text-xs text-blue-700 hover:text-blue-900"
+                        >
+                          Load
+                        </button>
+                        <button
+                          onClick={() => restoreMutation.mutate(version.version)}
+                          disabled={restoreMutation.isPending}
+                          className="flex items-center gap-1 text-xs text-blue-700 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Restore
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
\ No newline at end of file
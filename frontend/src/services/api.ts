@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { toast } from 'react-hot-toast';
 import {
   ApiResponse,
   ErrorResponse,
@@ -7,18 +8,70 @@ import {
   RefinePromptRequest,
   RefinePromptResponse,
   LLMProvider,
+  ModelInfo,
   RefinementSession,
   Question,
   Answer,
+  PromptRevision,
+  PromptRevisionDiff,
+  PromptTemplate,
+  PromptTemplateDefaults,
+  PromptResolution,
+  QuestionCategory,
+  NextQuestionRequest,
+  NextQuestionResponse,
+  CreatePromptTemplateRequest,
+  UpdatePromptTemplateRequest,
 } from '../types';
 
 const API_BASE_URL = (import.meta.env.VITE_API_URL as string) || 'http://localhost:8000';
 
+// Identifies this browser to the backend's per-client usage quotas
+const getClientId = (): string => {
+  let clientId = localStorage.getItem('client-id');
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem('client-id', clientId);
+  }
+  return clientId;
+};
+
+const CLIENT_ID_HEADER = 'X-Client-Id';
+const QUOTA_WARNING_HEADER = 'x-quota-warning';
+
+// The backend names the nearly used-up quota(s) in a response header; tell the user once per warning
+let lastQuotaWarning: string | null = null;
+const notifyQuotaWarning = (warning: string | null | undefined) => {
+  if (warning && warning !== lastQuotaWarning) {
+    toast(`${warning} is nearly used up`, { icon: '⚠️' });
+  }
+  lastQuotaWarning = warning || null;
+};
+
+export const isQuotaExceededError = (error: any): boolean =>
+  error?.response?.data?.code === 'QUOTA_EXCEEDED';
+
+// Prompt template changes need the backend's PROMPT_ADMIN_KEY, when one is configured
+const ADMIN_KEY_STORAGE_KEY = 'admin-key';
+
+export const getAdminKey = (): string => localStorage.getItem(ADMIN_KEY_STORAGE_KEY) || '';
+
+export const setAdminKey = (key: string) => {
+  if (key) {
+    localStorage.setItem(ADMIN_KEY_STORAGE_KEY, key);
+  } else {
+    localStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+  }
+};
+
+const adminHeaders = () => ({ 'X-Admin-Key': getAdminKey() });
+
 const api = axios.create({
   baseURL: `${API_BASE_URL}/api`,
   timeout: 30000,
   headers: {
     'Content-Type': 'application/json',
+    [CLIENT_ID_HEADER]: getClientId(),
   },
 });
 
@@ -127,11 +180,89 @@ api.interceptors.response.use(
       dataType: typeof response.data,
       hasData: !!response.data,
     });
+    notifyQuotaWarning(response.headers[QUOTA_WARNING_HEADER]);
     return response;
   },
   handleApiError
 );
 
+interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+const parseServerSentEvent = (rawEvent: string): ServerSentEvent | null => {
+  let event = 'message';
+  let data = '';
+
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data += line.slice(5).trim();
+    }
+  }
+
+  return data ? { event, data: JSON.parse(data) } : null;
+};
+
+// POSTs to a streaming endpoint and yields its Server-Sent Events; fetch is used because
+// EventSource cannot POST and axios cannot read a response incrementally in the browser
+async function* postEventStream(
+  path: string,
+  body: unknown,
+  failureMessage: string
+): AsyncGenerator<ServerSentEvent> {
+  const response = await fetch(`${API_BASE_URL}/api${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      [CLIENT_ID_HEADER]: getClientId(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => null);
+    const error = new Error(errorData?.message || `${failureMessage} (${response.status})`);
+    // Same shape as axios errors, so callers can read the error code (e.g. QUOTA_EXCEEDED)
+    (error as any).response = { status: response.status, data: errorData };
+    throw error;
+  }
+
+  notifyQuotaWarning(response.headers.get(QUOTA_WARNING_HEADER));
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary >= 0) {
+        const event = parseServerSentEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+
+        if (event?.event === 'error') {
+          throw new Error(event.data.message || failureMessage);
+        } else if (event) {
+          yield event;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    // Closing early (after a complete event or an error) cancels the request server-side
+    reader.cancel().catch(() => undefined);
+  }
+}
+
 export const apiService = {
   // Provider endpoints
   async getProviders(): Promise<LLMProvider[]> {
@@ -160,6 +291,11 @@ export const apiService = {
     }
   },
 
+  async getProviderModels(providerId: string): Promise<ModelInfo[]> {
+    const response = await api.get<ApiResponse<{ providerId: string; models: ModelInfo[] }>>(`/providers/${providerId}/models`);
+    return response.data.data?.models || [];
+  },
+
   async validateApiKey(providerId: string, apiKey: string): Promise<boolean> {
     try {
       const response = await api.post<ApiResponse<{ isValid: boolean }>>('/providers/validate-key', {
@@ -183,6 +319,10 @@ export const apiService = {
       return response.data.data;
     } catch (error: any) {
       console.error('Failed to create session:', error);
+
+      if (isQuotaExceededError(error)) {
+        throw error;
+      }
       
       // Enhance error message for specific provider issues
       if (error.status === 404) {
@@ -193,6 +333,27 @@ export const apiService = {
     }
   },
 
+  // Streams session creation: the session arrives first, then each question as soon as it is generated
+  async createSessionStream(
+    request: CreateSessionRequest,
+    handlers: {
+      onSession: (session: RefinementSession) => void;
+      onQuestion: (question: Question) => void;
+    }
+  ): Promise<CreateSessionResponse> {
+    for await (const { event, data } of postEventStream('/prompts/create-session/stream', request, 'Failed to create session')) {
+      if (event === 'session') {
+        handlers.onSession(data as RefinementSession);
+      } else if (event === 'question') {
+        handlers.onQuestion(data as Question);
+      } else if (event === 'complete') {
+        return data as CreateSessionResponse;
+      }
+    }
+
+    throw new Error('Session stream ended unexpectedly');
+  },
+
   async getSession(sessionId: string): Promise<RefinementSession> {
     try {
       const response = await api.get<ApiResponse<RefinementSession>>(`/prompts/session/${sessionId}`);
@@ -232,6 +393,10 @@ export const apiService = {
       return response.data.data;
     } catch (error: any) {
       console.error('Failed to refine prompt:', error);
+
+      if (isQuotaExceededError(error)) {
+        throw error;
+      }
       
       // Enhance error message for specific provider issues
       if (error.status === 404) {
@@ -242,21 +407,166 @@ export const apiService = {
     }
   },
 
+  // Adaptive mode: one follow-up question built on the answers so far
+  async getNextQuestion(sessionId: string, request: Omit<NextQuestionRequest, 'sessionId'>): Promise<NextQuestionResponse> {
+    try {
+      const response = await api.post<ApiResponse<NextQuestionResponse>>(`/prompts/session/${sessionId}/next-question`, request);
+      if (!response.data.data) {
+        throw new Error('Invalid response format from server');
+      }
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Failed to generate the next question:', error);
+
+      if (isQuotaExceededError(error)) {
+        throw error;
+      }
+
+      throw new Error(error.message || 'Failed to generate the next question');
+    }
+  },
+
+  // Streams refinement over Server-Sent Events, reporting each token as it arrives
+  async refinePromptStream(
+    request: RefinePromptRequest,
+    onToken: (token: string) => void
+  ): Promise<RefinePromptResponse> {
+    for await (const { event, data } of postEventStream('/prompts/refine/stream', request, 'Failed to refine prompt')) {
+      if (event === 'token') {
+        onToken(data.token);
+      } else if (event === 'complete') {
+        return data as RefinePromptResponse;
+      }
+    }
+
+    throw new Error('Refinement stream ended unexpectedly');
+  },
+
   async deleteSession(sessionId: string): Promise<void> {
     await api.delete(`/prompts/session/${sessionId}`);
   },
 
+  // Prompt revision endpoints
+  async getRevisions(sessionId: string): Promise<PromptRevision[]> {
+    const response = await api.get<ApiResponse<PromptRevision[]>>(`/prompts/session/${sessionId}/revisions`);
+    return response.data.data || [];
+  },
+
+  async getRevision(sessionId: string, version: number): Promise<PromptRevision> {
+    const response = await api.get<ApiResponse<PromptRevision>>(`/prompts/session/${sessionId}/revisions/${version}`);
+    if (!response.data.data) {
+      throw new Error('Revision not found');
+    }
+    return response.data.data;
+  },
+
+  // Version 0 is the original prompt
+  async diffRevisions(sessionId: string, from: number, to: number): Promise<PromptRevisionDiff> {
+    const response = await api.get<ApiResponse<PromptRevisionDiff>>(`/prompts/session/${sessionId}/revisions/diff`, {
+      params: { from, to },
+    });
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  async savePromptEdit(sessionId: string, prompt: string): Promise<RefinementSession> {
+    const response = await api.post<ApiResponse<RefinementSession>>(`/prompts/session/${sessionId}/revisions`, { prompt });
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  async restoreRevision(sessionId: string, version: number): Promise<RefinementSession> {
+    const response = await api.post<ApiResponse<RefinementSession>>(`/prompts/session/${sessionId}/revisions/${version}/restore`);
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  // Prompt template endpoints
+  async getPromptTemplates(): Promise<PromptTemplate[]> {
+    const response = await api.get<ApiResponse<PromptTemplate[]>>('/prompt-templates');
+    return response.data.data || [];
+  },
+
+  async getPromptTemplateDefaults(): Promise<PromptTemplateDefaults> {
+    const response = await api.get<ApiResponse<PromptTemplateDefaults>>('/prompt-templates/defaults');
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  // Which prompt a provider and model would be sent (both types unless one is given)
+  async resolvePrompt(providerId: string, model?: string): Promise<PromptResolution[]> {
+    const response = await api.get<ApiResponse<PromptResolution[]>>('/prompt-templates/resolve', {
+      params: { providerId, model: model || undefined },
+    });
+    return response.data.data || [];
+  },
+
+  async createPromptTemplate(request: CreatePromptTemplateRequest): Promise<PromptTemplate> {
+    const response = await api.post<ApiResponse<PromptTemplate>>('/prompt-templates', request, { headers: adminHeaders() });
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  async updatePromptTemplate(id: string, request: UpdatePromptTemplateRequest): Promise<PromptTemplate> {
+    const response = await api.put<ApiResponse<PromptTemplate>>(`/prompt-templates/${id}`, request, { headers: adminHeaders() });
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  async restorePromptTemplateVersion(id: string, version: number): Promise<PromptTemplate> {
+    const response = await api.post<ApiResponse<PromptTemplate>>(
+      `/prompt-templates/${id}/versions/${version}/restore`,
+      undefined,
+      { headers: adminHeaders() }
+    );
+    if (!response.data.data) {
+      throw new Error('Invalid response format from server');
+    }
+    return response.data.data;
+  },
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    await api.delete(`/prompt-templates/${id}`, { headers: adminHeaders() });
+  },
+
   // Question endpoints
-  async generateQuestions(prompt: string, llmProvider: string, model?: string): Promise<Question[]> {
+  async getQuestionCategories(): Promise<QuestionCategory[]> {
+    const response = await api.get<ApiResponse<QuestionCategory[]>>('/questions/categories');
+    return response.data.data || [];
+  },
+
+  async generateQuestions(
+    prompt: string,
+    llmProvider: string,
+    model?: string,
+    preferences: Pick<CreateSessionRequest, 'language' | 'tone' | 'categories'> = {}
+  ): Promise<Question[]> {
     try {
       const response = await api.post<ApiResponse<{ questions: Question[] }>>('/questions/generate', {
         prompt,
         llmProvider,
         model,
+        ...preferences,
       });
       return response.data.data?.questions || [];
     } catch (error: any) {
       console.error('Failed to generate questions:', error);
+
+      if (isQuotaExceededError(error)) {
+        throw error;
+      }
       
       // Enhance error message for specific provider issues
       if (error.status === 404) {
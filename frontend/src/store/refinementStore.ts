@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { RefinementSession, Question, Answer } from '../types';
+import { RefinementSession, Question, Answer, ModelInfo, QuotaStatus } from '../types';
+import { apiService } from '../services/api';
 
 interface PromptVersion {
   id: string;
@@ -16,6 +17,14 @@ interface RefinementState {
   currentStep: 'input' | 'questions' | 'results';
   selectedProvider: string;
   selectedModel?: string;
+  // Language of generated questions and refined prompts; undefined follows the prompt
+  selectedLanguage?: string;
+  // Question categories to ask about; undefined asks about all of them
+  selectedCategories?: string[];
+  // Ask a follow-up question after each answer instead of a new batch every few answers
+  adaptiveQuestions: boolean;
+  // Models of the selected provider, with metadata, as last loaded from the backend
+  availableModels: ModelInfo[];
   questions: Question[];
   answers: Answer[];
   currentQuestionIndex: number;
@@ -26,7 +35,8 @@ interface RefinementState {
     provider: string;
     model?: string;
     details?: string;
-    type?: 'api_error' | 'auth_error' | 'rate_limit' | 'model_error' | 'network_error' | 'unknown';
+    type?: 'api_error' | 'auth_error' | 'rate_limit' | 'model_error' | 'network_error' | 'quota_exceeded' | 'unknown';
+    quota?: QuotaStatus;
   } | null;
   isAutoSubmitting: boolean;
   answeredCount: number;
@@ -44,11 +54,14 @@ interface RefinementActions {
   setCurrentStep: (step: 'input' | 'questions' | 'results') => void;
   setSelectedProvider: (provider: string) => void;
   setSelectedModel: (model?: string) => void;
+  setSelectedLanguage: (language?: string) => void;
+  setSelectedCategories: (categories?: string[]) => void;
+  setAdaptiveQuestions: (adaptive: boolean) => void;
   setQuestions: (questions: Question[]) => void;
   addQuestions: (questions: Question[]) => void;
   setAnswers: (answers: Answer[]) => void;
   addAnswer: (answer: Answer) => void;
-  updateAnswer: (questionId: string, response: boolean | string) => void;
+  updateAnswer: (questionId: string, response: Answer['response']) => void;
   setCurrentQuestionIndex: (index: number) => void;
   nextQuestion: () => void;
   previousQuestion: () => void;
@@ -60,7 +73,7 @@ interface RefinementActions {
   setFetchQuestionsCallback: (callback: (() => void) | null) => void;
   reset: () => void;
   initializeProvider: (defaultProvider: string) => void;
-  validateAndUpdateModel: (availableModels: string[]) => void;
+  validateAndUpdateModel: (providerId: string) => Promise<void>;
   // New version management actions
   savePromptVersion: (isManualSave?: boolean) => void;
   rollbackToPrevious: () => boolean;
@@ -72,6 +85,10 @@ const initialState: RefinementState = {
   currentStep: 'input',
   selectedProvider: '',
   selectedModel: undefined,
+  selectedLanguage: undefined,
+  selectedCategories: undefined,
+  adaptiveQuestions: false,
+  availableModels: [],
   questions: [],
   answers: [],
   currentQuestionIndex: 0,
@@ -94,8 +111,11 @@ export const useRefinementStore = create<RefinementState & RefinementActions>()(
       ...initialState,
       setSession: (session) => set({ session }),
       setCurrentStep: (step) => set({ currentStep: step }),
-      setSelectedProvider: (provider) => set({ selectedProvider: provider }),
+      setSelectedProvider: (provider) => set({ selectedProvider: provider, availableModels: [] }),
       setSelectedModel: (model) => set({ selectedModel: model }),
+      setSelectedLanguage: (language) => set({ selectedLanguage: language }),
+      setSelectedCategories: (categories) => set({ selectedCategories: categories }),
+      setAdaptiveQuestions: (adaptive) => set({ adaptiveQuestions: adaptive }),
       setQuestions: (questions) => set({ questions, answeredCount: 0 }),
       addQuestions: (newQuestions) => 
         set((state) => ({ 
@@ -135,7 +155,8 @@ export const useRefinementStore = create<RefinementState & RefinementActions>()(
         }
         
         // Trigger fetch new questions every 6th answer starting from 2nd (2, 8, 14, 20...)
-        if (isNewAnswer && fetchQuestionsCallback && newAnsweredCount >= 2 && (newAnsweredCount - 2) % 6 === 0) {
+        // Adaptive mode asks for follow-ups from the question view instead
+        if (isNewAnswer && fetchQuestionsCallback && !get().adaptiveQuestions && newAnsweredCount >= 2 && (newAnsweredCount - 2) % 6 === 0) {
           console.log(`Fetching new questions after ${newAnsweredCount} answers`);
           setTimeout(() => {
             fetchQuestionsCallback();
@@ -176,12 +197,28 @@ export const useRefinementStore = create<RefinementState & RefinementActions>()(
           set({ selectedProvider: defaultProvider });
         }
       },
-      validateAndUpdateModel: (availableModels) => {
+      validateAndUpdateModel: async (providerId) => {
+        let availableModels: ModelInfo[];
+        try {
+          availableModels = await apiService.getProviderModels(providerId);
+        } catch (error) {
+          // Keep the current selection rather than clearing it on a transient error
+          console.error(`Failed to load models for ${providerId}:`, error);
+          return;
+        }
+
+        // The provider may have been switched while the list was loading
+        if (get().selectedProvider !== providerId) {
+          return;
+        }
+
         const { selectedModel } = get();
+        const modelIds = availableModels.map((model) => model.id);
+        set({ availableModels });
         
         // If no model selected or current model is not available, select the first available model
-        if (!selectedModel || !availableModels.includes(selectedModel)) {
-          const newModel = availableModels.length > 0 ? availableModels[0] : undefined;
+        if (!selectedModel || !modelIds.includes(selectedModel)) {
+          const newModel = modelIds.length > 0 ? modelIds[0] : undefined;
           if (newModel !== selectedModel) {
             console.log(`Updating model from ${selectedModel} to ${newModel}`);
             set({ selectedModel: newModel });
@@ -251,6 +288,9 @@ export const useRefinementStore = create<RefinementState & RefinementActions>()(
       partialize: (state) => ({
         selectedProvider: state.selectedProvider,
         selectedModel: state.selectedModel,
+        selectedLanguage: state.selectedLanguage,
+        selectedCategories: state.selectedCategories,
+        adaptiveQuestions: state.adaptiveQuestions,
       }),
     }
   )
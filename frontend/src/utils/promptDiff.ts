@@ -0,0 +1,157 @@
+/**
+ * A run of text in a prompt diff. The older version reads as its equal, delete and moved-from runs;
+ * the newer one as its equal, insert and moved-to runs.
+ */
+export interface PromptDiffSegment {
+  type: 'equal' | 'insert' | 'delete' | 'moved-from' | 'moved-to';
+  text: string;
+}
+
+// A sentence runs to its closing punctuation or line break, and keeps the whitespace after it
+const SENTENCE_PATTERN = /[\s\S]*?(?:[.!?]+(?=\s|$)|\n|$)\s*/g;
+// Words, runs of whitespace and single punctuation marks
+const WORD_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+// Shorter sentences ("Yes.") repeat too often to be reported as moved
+const MIN_MOVED_SENTENCE_LENGTH = 15;
+
+const splitSentences = (text: string): string[] => (text.match(SENTENCE_PATTERN) || []).filter(Boolean);
+
+const splitWords = (text: string): string[] => text.match(WORD_PATTERN) || [];
+
+// Index pairs of a longest common subsequence of the two lists, in order
+const longestCommonSubsequence = (a: string[], b: string[]): Array<[number, number]> => {
+  const cols = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+const push = (segments: PromptDiffSegment[], type: PromptDiffSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+// Word diff of two token lists; tokens found in `moved` stand for a whole moved sentence
+const diffTokens = (
+  segments: PromptDiffSegment[],
+  a: string[],
+  b: string[],
+  moved: Map<string, PromptDiffSegment>
+) => {
+  const emit = (type: PromptDiffSegment['type'], tokens: string[]) => {
+    for (const token of tokens) {
+      const sentence = moved.get(token);
+      push(segments, sentence ? sentence.type : type, sentence ? sentence.text : token);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of [...longestCommonSubsequence(a, b), [a.length, b.length]]) {
+    emit('delete', a.slice(i, matchA));
+    emit('insert', b.slice(j, matchB));
+    push(segments, 'equal', a[matchA] ?? '');
+    i = matchA + 1;
+    j = matchB + 1;
+  }
+};
+
+/**
+ * Diff of two prompt versions: sentences are aligned first, so a sentence that only changed
+ * position shows as moved rather than as a deletion plus an insertion, and the sentences in
+ * between are compared word by word.
+ */
+export const diffPrompts = (before: string, after: string): PromptDiffSegment[] => {
+  const sentencesA = splitSentences(before);
+  const sentencesB = splitSentences(after);
+  const keysA = sentencesA.map(sentence => sentence.trim());
+  const keysB = sentencesB.map(sentence => sentence.trim());
+  const anchors = longestCommonSubsequence(keysA, keysB);
+
+  // Unaligned sentences found on both sides were moved
+  const alignedA = new Set(anchors.map(([i]) => i));
+  const alignedB = new Set(anchors.map(([, j]) => j));
+  const movedA = new Set<number>();
+  const movedB = new Set<number>();
+  keysB.forEach((key, j) => {
+    if (alignedB.has(j) || key.length < MIN_MOVED_SENTENCE_LENGTH) return;
+    const i = keysA.findIndex((candidate, index) => candidate === key && !alignedA.has(index) && !movedA.has(index));
+    if (i >= 0) {
+      movedA.add(i);
+      movedB.add(j);
+    }
+  });
+
+  // Moved sentences take part in the word diff as single placeholder tokens that match nothing,
+  // which keeps them in position among the changes around them
+  const moved = new Map<string, PromptDiffSegment>();
+  const tokensA = sentencesA.flatMap((sentence, i) => {
+    if (!movedA.has(i)) return splitWords(sentence);
+    moved.set(`\0from${i}`, { type: 'moved-from', text: sentence });
+    return [`\0from${i}`];
+  });
+  const tokensB = sentencesB.flatMap((sentence, j) => {
+    if (!movedB.has(j)) return splitWords(sentence);
+    moved.set(`\0to${j}`, { type: 'moved-to', text: sentence });
+    return [`\0to${j}`];
+  });
+
+  // Token offsets where each sentence starts, so the word diff runs between aligned sentences only
+  const offsets = (sentences: string[], tokens: string[], isMoved: Set<number>) => {
+    const starts: number[] = [];
+    let offset = 0;
+    sentences.forEach((sentence, index) => {
+      starts.push(offset);
+      offset += isMoved.has(index) ? 1 : splitWords(sentence).length;
+    });
+    starts.push(tokens.length);
+    return starts;
+  };
+  const startsA = offsets(sentencesA, tokensA, movedA);
+  const startsB = offsets(sentencesB, tokensB, movedB);
+
+  const segments: PromptDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchorA, anchorB] of [...anchors, [sentencesA.length, sentencesB.length]]) {
+    diffTokens(segments, tokensA.slice(startsA[i], startsA[anchorA]), tokensB.slice(startsB[j], startsB[anchorB]), moved);
+
+    // Aligned sentences can still differ in the whitespace around them
+    if (anchorA < sentencesA.length) {
+      diffTokens(
+        segments,
+        tokensA.slice(startsA[anchorA], startsA[anchorA + 1]),
+        tokensB.slice(startsB[anchorB], startsB[anchorB + 1]),
+        moved
+      );
+    }
+    i = anchorA + 1;
+    j = anchorB + 1;
+  }
+
+  return segments;
+};
\ No newline at end of file